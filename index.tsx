@@ -4,18 +4,64 @@ import * as pdfjsLib from 'pdfjs-dist';
 // --- Type Definitions ---
 interface User {
     username: string;
-    password: string;
+    password: string; // PBKDF2 hash (base64), or a legacy hash when salt is missing
+    salt?: string; // base64
+    iterations?: number;
     name: string;
     createdAt: string;
+    failedLoginAttempts?: number;
+    lockedUntil?: string;
 }
 
+// 'single' unless set; see renderQuestionStem() and isCorrectAnswer()
+type QuestionType = 'single' | 'multiple' | 'statements' | 'match' | 'assertion-reason';
+
+// A user's response: an option index, the chosen indices of a multiple-correct question, or null when unanswered
+type UserAnswer = number | number[] | null;
+
+type QuestionLanguage = 'English' | 'Hindi';
+
+// See estimateDifficulty(): the stored level is only the starting point for the calibrated one
+type DifficultyLevel = 'easy' | 'medium' | 'hard';
+
+// A map, chart, table or diagram shown with a question; the image itself lives in the images store
+interface QuestionImage {
+    id: string; // content-derived ID, see saveImage()
+    caption?: string;
+}
+
+// The translatable text of a question; options stay in the same order, so answers apply to every language
+type QuestionText = Pick<Question, 'question' | 'options' | 'explanation' | 'statements' | 'matchLists' | 'assertion' | 'reason' | 'prompt'>;
+
 interface Question {
+    id?: string; // stable question bank ID, assigned the first time the question is saved
+    type?: QuestionType;
     question: string;
     options: string[];
-    answer: number; // 0-indexed integer for the correct option
+    answer: number; // 0-indexed integer for the correct option; the first of `answers` for multiple-correct
+    answers?: number[]; // every correct option, for multiple-correct questions
+    statements?: string[]; // numbered statements, for statement-based questions
+    matchLists?: { left: string[]; right: string[] }; // List I and List II, for match-the-following
+    assertion?: string;
+    reason?: string;
+    prompt?: string; // closing line after the statements or lists, e.g. "How many of the above are correct?"
     explanation: string;
     subject: string;
     topic: string;
+    difficulty?: DifficultyLevel; // prior estimate from the AI or the author
+    source?: string; // where the question came from: a topic, file name, "Bulk Import", ...
+    createdAt?: string;
+    translations?: Partial<Record<QuestionLanguage, QuestionText>>; // parallel text; the fields above are in the test's language
+    images?: QuestionImage[];
+}
+
+// A block of consecutive questions with its own time limit and marking; see sectionRanges()
+interface TestSection {
+    name: string;
+    questionCount: number;
+    duration: number; // in minutes
+    marksPerQuestion: number;
+    negativeMarking: number;
 }
 
 interface Test {
@@ -27,12 +73,19 @@ interface Test {
     createdAt: string;
     marksPerQuestion: number;
     negativeMarking: number;
+    owner?: string; // username of the account the test is stored under
+    isReview?: boolean; // a spaced-repetition review session built from due review cards, never saved as a test
+    presetId?: string; // exam preset the marking was taken from, if any
+    qualifyingPercent?: number; // score needed to qualify; 50 for tests saved before presets
+    sections?: TestSection[]; // in order, covering every question; duration is then their total
+    schemaVersion?: number; // see SCHEMA_VERSION; missing on tests saved before versioning
 }
 
 interface TestAttempt {
+    id: string;
     testId: string;
     testName: string;
-    userAnswers: (number | null)[];
+    userAnswers: UserAnswer[];
     timeTaken: number; // in seconds
     timePerQuestion: number[]; // in seconds for each question
     completedAt: string;
@@ -41,11 +94,86 @@ interface TestAttempt {
     correctAnswers: number;
     incorrectAnswers: number;
     unanswered: number;
+    questionStatuses?: QuestionStatus[]; // missing on attempts saved before review scheduling
+    sectionTimes?: number[]; // seconds used in each section, for sectioned tests
     fullTest: Test;
+    owner?: string; // username of the account the attempt is stored under
+    schemaVersion?: number; // see SCHEMA_VERSION; missing on attempts saved before versioning
 }
 
 type QuestionStatus = 'notVisited' | 'notAnswered' | 'answered' | 'marked' | 'markedAndAnswered';
 
+// SM-2 schedule for one question that was answered wrong or guessed (answered but marked for review)
+interface ReviewCard {
+    id: string; // question bank ID, or a fingerprint for questions saved before the bank
+    question: Question; // snapshot, so the card survives the test being edited or deleted
+    easeFactor: number;
+    interval: number; // in days
+    repetitions: number; // successful reviews in a row
+    lapses: number;
+    dueAt: string;
+    lastMistakeAt: string; // completedAt of the latest attempt that added or reset this card
+    lastReviewedAt?: string;
+}
+
+// Snapshot of an in-progress attempt, saved on every answer change and timer tick so it survives a reload or crash
+interface AttemptCheckpoint {
+    test: Test;
+    currentQuestionIndex: number;
+    userAnswers: UserAnswer[];
+    questionStatuses: QuestionStatus[];
+    timeRemaining: number; // in seconds; for sectioned tests, left in the current section
+    timePerQuestion: number[]; // in seconds, including time spent so far on the current question
+    currentSectionIndex?: number;
+    sectionTimes?: number[];
+    language?: string; // language the questions were being shown in
+    savedAt: string;
+}
+
+// --- Safe Rendering ---
+// Question text, test names and AI output can come from imported files, PDFs or the AI provider, so renderers
+// never put them into innerHTML as-is. Markup is built with the html`` tag, which escapes every interpolated
+// value unless it is already SafeHTML (another html`` result, or an array of them), and assigned with setHTML().
+interface SafeHTML {
+    readonly __html: string;
+}
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;', '`': '&#96;' };
+
+function escapeHTML(value: unknown): string {
+    return String(value ?? '').replace(/[&<>"'`]/g, ch => HTML_ESCAPES[ch]);
+}
+
+// Every SafeHTML this module has created. Only membership counts, so an object with an __html key that came
+// from an imported file or the AI is escaped like any other value.
+const trustedMarkup = new WeakSet<object>();
+
+// Marks markup as safe without escaping it; only for strings built from escaped parts
+function trustedHTML(markup: string): SafeHTML {
+    const value = { __html: markup };
+    trustedMarkup.add(value);
+    return value;
+}
+
+function isSafeHTML(value: unknown): value is SafeHTML {
+    return typeof value === 'object' && value !== null && trustedMarkup.has(value);
+}
+
+function renderHTMLValue(value: unknown): string {
+    if (isSafeHTML(value)) return value.__html;
+    if (Array.isArray(value)) return value.map(renderHTMLValue).join('');
+    if (value === null || value === undefined || value === false) return '';
+    return escapeHTML(value);
+}
+
+function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHTML {
+    return trustedHTML(strings.reduce((markup, part, i) => markup + part + (i < values.length ? renderHTMLValue(values[i]) : ''), ''));
+}
+
+function setHTML(element: Element, content: SafeHTML | SafeHTML[]): void {
+    element.innerHTML = renderHTMLValue(content);
+}
+
 // --- PDF.js Worker Setup ---
 // This is crucial for performance and to prevent errors.
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.4.168/build/pdf.worker.mjs`;
@@ -70,8 +198,37 @@ const userDisplayName = document.getElementById('user-display-name');
 let currentUser: User | null = null;
 
 // --- Authentication Functions ---
-function hashPassword(password: string): string {
-    // Simple hash for demo purposes (in production, use proper hashing)
+// Passwords are stored as salted PBKDF2-SHA256 hashes. Accounts created before this carry only a legacy
+// 32-bit hash and no salt; they are upgraded on their next successful login.
+const PBKDF2_ITERATIONS = 310000;
+const PASSWORD_SALT_BYTES = 16;
+const MAX_FAILED_LOGINS = 5; // failures allowed before the account is locked
+const BASE_LOCKOUT_SECONDS = 30; // doubles with every further failure
+const MAX_LOCKOUT_SECONDS = 15 * 60;
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => binary += String.fromCharCode(byte));
+    return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+async function hashPassword(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<string> {
+    const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, keyMaterial, 256);
+    return bytesToBase64(new Uint8Array(bits));
+}
+
+// Only used to verify accounts that haven't been upgraded to PBKDF2 yet
+function legacyHashPassword(password: string): string {
     let hash = 0;
     for (let i = 0; i < password.length; i++) {
         const char = password.charCodeAt(i);
@@ -81,23 +238,50 @@ function hashPassword(password: string): string {
     return hash.toString(36);
 }
 
-function getUsers(): User[] {
-    try {
-        const users = localStorage.getItem('registeredUsers');
-        return users ? JSON.parse(users) : [];
-    } catch {
-        return [];
+async function createCredentials(password: string): Promise<Pick<User, 'password' | 'salt' | 'iterations'>> {
+    const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+    return {
+        password: await hashPassword(password, salt, PBKDF2_ITERATIONS),
+        salt: bytesToBase64(salt),
+        iterations: PBKDF2_ITERATIONS
+    };
+}
+
+// Compares every character so the time taken doesn't reveal how much of the hash matched
+function constantTimeEquals(a: string, b: string): boolean {
+    let diff = a.length ^ b.length;
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
     }
+    return diff === 0;
 }
 
-function saveUsers(users: User[]): void {
-    localStorage.setItem('registeredUsers', JSON.stringify(users));
+async function verifyPassword(user: User, password: string): Promise<boolean> {
+    if (!user.salt || !user.iterations) {
+        return constantTimeEquals(user.password, legacyHashPassword(password));
+    }
+    const hash = await hashPassword(password, base64ToBytes(user.salt), user.iterations);
+    return constantTimeEquals(user.password, hash);
 }
 
-function registerUser(name: string, username: string, password: string): { success: boolean; message: string } {
-    const users = getUsers();
-    
-    if (users.find(u => u.username.toLowerCase() === username.toLowerCase())) {
+function lockoutSecondsFor(failedAttempts: number): number {
+    if (failedAttempts < MAX_FAILED_LOGINS) return 0;
+    return Math.min(BASE_LOCKOUT_SECONDS * 2 ** (failedAttempts - MAX_FAILED_LOGINS), MAX_LOCKOUT_SECONDS);
+}
+
+function formatLockoutWait(until: string): string {
+    const seconds = Math.ceil((new Date(until).getTime() - Date.now()) / 1000);
+    return seconds >= 60 ? `${Math.ceil(seconds / 60)} minute(s)` : `${seconds} second(s)`;
+}
+
+// Only non-secret fields are kept in session storage
+function toSessionUser(user: User): User {
+    const { salt, iterations, failedLoginAttempts, lockedUntil, ...sessionUser } = user;
+    return { ...sessionUser, password: '' };
+}
+
+async function registerUser(name: string, username: string, password: string): Promise<{ success: boolean; message: string }> {
+    if (await getUser(username)) {
         return { success: false, message: 'Username already exists!' };
     }
     
@@ -111,34 +295,54 @@ function registerUser(name: string, username: string, password: string): { succe
     
     const newUser: User = {
         username: username.toLowerCase(),
-        password: hashPassword(password),
+        ...await createCredentials(password),
         name: name,
         createdAt: new Date().toISOString()
     };
     
-    users.push(newUser);
-    saveUsers(users);
+    await saveUser(newUser);
     
     return { success: true, message: 'Account created successfully!' };
 }
 
-function authenticateUser(username: string, password: string): { success: boolean; user?: User; message: string } {
-    const users = getUsers();
-    const user = users.find(u => u.username.toLowerCase() === username.toLowerCase());
+async function authenticateUser(username: string, password: string): Promise<{ success: boolean; user?: User; message: string }> {
+    const user = await getUser(username);
     
     if (!user) {
         return { success: false, message: 'Invalid username or password!' };
     }
     
-    if (user.password !== hashPassword(password)) {
+    if (user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now()) {
+        return { success: false, message: `Too many failed attempts. Try again in ${formatLockoutWait(user.lockedUntil)}.` };
+    }
+    
+    if (!(await verifyPassword(user, password))) {
+        user.failedLoginAttempts = (user.failedLoginAttempts || 0) + 1;
+        const lockoutSeconds = lockoutSecondsFor(user.failedLoginAttempts);
+        if (lockoutSeconds > 0) {
+            user.lockedUntil = new Date(Date.now() + lockoutSeconds * 1000).toISOString();
+        }
+        await saveUser(user);
+        
+        if (user.lockedUntil) {
+            return { success: false, message: `Too many failed attempts. Try again in ${formatLockoutWait(user.lockedUntil)}.` };
+        }
         return { success: false, message: 'Invalid username or password!' };
     }
     
+    // Upgrade legacy or weaker hashes now that we know the plain password
+    if (!user.salt || !user.iterations || user.iterations < PBKDF2_ITERATIONS) {
+        Object.assign(user, await createCredentials(password));
+    }
+    user.failedLoginAttempts = 0;
+    delete user.lockedUntil;
+    await saveUser(user);
+    
     return { success: true, user, message: 'Login successful!' };
 }
 
 function loginUser(user: User, remember: boolean): void {
-    currentUser = user;
+    currentUser = toSessionUser(user);
     
     if (remember) {
         localStorage.setItem('rememberedUser', JSON.stringify({ username: user.username, name: user.name }));
@@ -146,15 +350,31 @@ function loginUser(user: User, remember: boolean): void {
         localStorage.removeItem('rememberedUser');
     }
     
-    sessionStorage.setItem('currentUser', JSON.stringify(user));
+    sessionStorage.setItem('currentUser', JSON.stringify(currentUser));
     
     userDisplayName.textContent = user.name;
     loginScreen.classList.add('hidden');
     mainView.classList.remove('hidden');
+
+    onSessionStarted(user);
+}
+
+// Post-login housekeeping: claim pre-account data, then offer to resume an interrupted attempt
+function onSessionStarted(user: User): void {
+    migrateLegacyData(user)
+        .catch(error => reportStorageError('move your earlier data into this account', error))
+        .then(() => offerCheckpointResume())
+        .then(() => refreshReviewDueSummary())
+        .then(() => refreshDifficultyEstimates())
+        .catch(error => console.error("Error checking for an unfinished attempt:", error));
 }
 
 function logoutUser(): void {
     currentUser = null;
+    currentTest = null;
+    currentAttemptForReport = null;
+    aggregatedSubjectData = {};
+    difficultyEstimates = new Map();
     sessionStorage.removeItem('currentUser');
     
     mainView.classList.add('hidden');
@@ -176,6 +396,7 @@ function checkExistingSession(): void {
             userDisplayName.textContent = user.name;
             loginScreen.classList.add('hidden');
             mainView.classList.remove('hidden');
+            onSessionStarted(user);
             return;
         } catch {}
     }
@@ -202,23 +423,27 @@ function showRegisterForm(): void {
 }
 
 // --- Authentication Event Listeners ---
-loginForm.addEventListener('submit', (e) => {
+loginForm.addEventListener('submit', async (e) => {
     e.preventDefault();
     
     const username = loginUsernameInput.value.trim();
     const password = loginPasswordInput.value;
     const remember = rememberMeCheckbox.checked;
     
-    const result = authenticateUser(username, password);
-    
-    if (result.success && result.user) {
-        loginUser(result.user, remember);
-    } else {
-        alert(result.message);
+    try {
+        const result = await authenticateUser(username, password);
+        
+        if (result.success && result.user) {
+            loginUser(result.user, remember);
+        } else {
+            alert(result.message);
+        }
+    } catch (error) {
+        reportStorageError('sign you in', error);
     }
 });
 
-registerForm.addEventListener('submit', (e) => {
+registerForm.addEventListener('submit', async (e) => {
     e.preventDefault();
     
     const name = registerNameInput.value.trim();
@@ -231,19 +456,23 @@ registerForm.addEventListener('submit', (e) => {
         return;
     }
     
-    const result = registerUser(name, username, password);
-    
-    if (result.success) {
-        alert(result.message);
-        // Auto-login after registration
-        const authResult = authenticateUser(username, password);
-        if (authResult.success && authResult.user) {
-            loginUser(authResult.user, false);
+    try {
+        const result = await registerUser(name, username, password);
+        
+        if (result.success) {
+            alert(result.message);
+            // Auto-login after registration
+            const authResult = await authenticateUser(username, password);
+            if (authResult.success && authResult.user) {
+                loginUser(authResult.user, false);
+            } else {
+                showLoginForm();
+            }
         } else {
-            showLoginForm();
+            alert(result.message);
         }
-    } else {
-        alert(result.message);
+    } catch (error) {
+        reportStorageError('create your account', error);
     }
 });
 
@@ -269,12 +498,18 @@ const testAttemptView = document.getElementById('test-attempt-view');
 const performanceView = document.getElementById('performance-view');
 const performanceReportView = document.getElementById('performance-report-view');
 const analyticsView = document.getElementById('analytics-view');
+const settingsView = document.getElementById('settings-view');
+const questionBankView = document.getElementById('question-bank-view');
+const itemAnalysisView = document.getElementById('item-analysis-view');
 
 // Main Page Cards
 const createTestCard = document.querySelector('.card[aria-labelledby="create-test-title"]');
 const allTestsCard = document.querySelector('.card[aria-labelledby="all-tests-title"]');
 const performanceCard = document.querySelector('.card[aria-labelledby="performance-title"]');
 const analyticsCard = document.querySelector('.card[aria-labelledby="analytics-title"]');
+const questionBankCard = document.querySelector('.card[aria-labelledby="question-bank-title"]');
+const reviewCard = document.querySelector('.card[aria-labelledby="review-title"]');
+const reviewDueSummary = document.getElementById('review-due-summary');
 
 // Data Control Elements (for restore functionality)
 const restoreFileInput = document.getElementById('restore-file-input') as HTMLInputElement;
@@ -284,8 +519,11 @@ const backToHomeFromCreateBtn = document.getElementById('back-to-home-from-creat
 const backToHomeFromAllTestsBtn = document.getElementById('back-to-home-from-all-tests');
 const backToHomeFromPerformanceBtn = document.getElementById('back-to-home-from-performance');
 const backToHomeFromAnalyticsBtn = document.getElementById('back-to-home-from-analytics');
+const backToHomeFromSettingsBtn = document.getElementById('back-to-home-from-settings');
+const backToHomeFromBankBtn = document.getElementById('back-to-home-from-bank');
 const backToCreateBtn = document.getElementById('back-to-create');
 const backToAllTestsFromDetailBtn = document.getElementById('back-to-all-tests-from-detail');
+const backToDetailFromItemAnalysisBtn = document.getElementById('back-to-detail-from-item-analysis');
 const backToPerformanceListBtn = document.getElementById('back-to-performance-list');
 
 // Create Test View Elements
@@ -297,20 +535,36 @@ const questionsSlider = document.getElementById('questions-slider') as HTMLInput
 const questionsCount = document.getElementById('questions-count');
 const languageSelect = document.getElementById('language-select') as HTMLSelectElement;
 const durationInput = document.getElementById('duration-input') as HTMLInputElement;
+const difficultyMixSelect = document.getElementById('difficulty-mix-select') as HTMLSelectElement;
 const marksInput = document.getElementById('marks-input') as HTMLInputElement;
 const negativeInput = document.getElementById('negative-input') as HTMLSelectElement;
+const qualifyingInput = document.getElementById('qualifying-input') as HTMLInputElement;
+const examPresetSelect = document.getElementById('exam-preset-select') as HTMLSelectElement;
+const examPresetDescription = document.getElementById('exam-preset-description');
 const testNameInput = document.getElementById('test-name-input') as HTMLInputElement;
 const fileUpload = document.getElementById('file-upload') as HTMLInputElement;
 const textInput = document.getElementById('text-input') as HTMLTextAreaElement;
 const manualInput = document.getElementById('manual-input') as HTMLTextAreaElement;
+const bulkImportReport = document.getElementById('bulk-import-report') as HTMLElement;
+const importFileInput = document.getElementById('import-file-input') as HTMLInputElement;
+const importFormatSelect = document.getElementById('import-format-select') as HTMLSelectElement;
+const importMapping = document.getElementById('import-mapping') as HTMLElement;
+const importPreview = document.getElementById('import-preview') as HTMLElement;
+const importToBankBtn = document.getElementById('import-to-bank-btn') as HTMLButtonElement;
 const generateTestBtn = document.getElementById('generate-test-btn') as HTMLButtonElement;
 const loader = document.getElementById('loader');
 
 // Edit Test View Elements
 const editTestTitle = editTestView.querySelector('h2');
+const validationSummary = document.getElementById('validation-summary') as HTMLElement;
+const sectionsList = document.getElementById('sections-list');
+const sectionsCoverage = document.getElementById('sections-coverage');
+const addSectionBtn = document.getElementById('add-section-btn');
 const editableQuestionsContainer = document.getElementById('editable-questions-container');
 const addQuestionBtn = document.getElementById('add-question-btn');
 const saveTestBtn = document.getElementById('save-test-btn');
+const translateTestBtn = document.getElementById('translate-test-btn') as HTMLButtonElement;
+const translateTestLabel = document.getElementById('translate-test-label');
 
 // All Tests View Elements
 const allTestsContainer = document.getElementById('all-tests-container');
@@ -322,9 +576,36 @@ const testDetailContainer = document.getElementById('test-detail-container');
 const testDetailTitle = document.getElementById('test-detail-title');
 const testDetailActions = document.getElementById('test-detail-actions');
 
+// Printable Paper Elements
+const printPaperModal = document.getElementById('print-paper-modal');
+const closePrintPaperBtn = document.getElementById('close-print-paper-btn');
+const paperSetCountSelect = document.getElementById('paper-set-count') as HTMLSelectElement;
+const paperShuffleQuestionsInput = document.getElementById('paper-shuffle-questions') as HTMLInputElement;
+const paperShuffleOptionsInput = document.getElementById('paper-shuffle-options') as HTMLInputElement;
+const paperIncludeKeyInput = document.getElementById('paper-include-key') as HTMLInputElement;
+const paperIncludeOMRInput = document.getElementById('paper-include-omr') as HTMLInputElement;
+const downloadPaperBtn = document.getElementById('download-paper-btn') as HTMLButtonElement;
+const openPaperBtn = document.getElementById('open-paper-btn') as HTMLButtonElement;
+
+// Question Export Elements
+const exportQuestionsModal = document.getElementById('export-questions-modal');
+const closeExportQuestionsBtn = document.getElementById('close-export-questions-btn');
+const exportQuestionsDescription = document.getElementById('export-questions-description');
+const exportFormatSelect = document.getElementById('export-format-select') as HTMLSelectElement;
+const exportFormatHint = document.getElementById('export-format-hint');
+const downloadExportBtn = document.getElementById('download-export-btn') as HTMLButtonElement;
+
+// Item Analysis View Elements
+const itemAnalysisTitle = document.getElementById('item-analysis-title');
+const itemAnalysisSummary = document.getElementById('item-analysis-summary');
+const itemAnalysisContainer = document.getElementById('item-analysis-container');
+
 // Test Attempt View Elements
 const attemptTestTitle = document.getElementById('attempt-test-title');
 const timeLeftEl = document.getElementById('time-left');
+const submitTestLabel = document.getElementById('submit-test-label');
+const languageToggleBtn = document.getElementById('language-toggle-btn') as HTMLButtonElement;
+const languageToggleLabel = document.getElementById('language-toggle-label');
 const questionContentContainer = document.getElementById('question-content');
 const questionPaletteContainer = document.getElementById('question-palette');
 const saveNextBtn = document.getElementById('save-next-btn') as HTMLButtonElement;
@@ -332,6 +613,10 @@ const markReviewBtn = document.getElementById('mark-review-btn') as HTMLButtonEl
 const clearResponseBtn = document.getElementById('clear-response-btn') as HTMLButtonElement;
 const testSidebar = document.getElementById('test-sidebar');
 const toggleSidebarBtn = document.getElementById('toggle-sidebar-btn');
+const resumeAttemptModal = document.getElementById('resume-attempt-modal');
+const resumeAttemptMessage = document.getElementById('resume-attempt-message');
+const resumeAttemptBtn = document.getElementById('resume-attempt-btn') as HTMLButtonElement;
+const discardAttemptBtn = document.getElementById('discard-attempt-btn') as HTMLButtonElement;
 
 // Performance View Elements
 const performanceContainer = document.getElementById('performance-container');
@@ -340,9 +625,17 @@ const performanceSummaryContainer = document.getElementById('performance-summary
 // New Tab Containers
 const timeAnalysisContainer = document.getElementById('time-analysis-view');
 const subjectBreakdownContainer = document.getElementById('subject-breakdown-view');
+const sectionBreakdownContainer = document.getElementById('section-breakdown-view');
+const sectionBreakdownTab = document.getElementById('section-breakdown-tab');
 const mistakesReviewContainer = document.getElementById('mistakes-view');
 const allQuestionsReviewContainer = document.getElementById('all-questions-view');
 const downloadReportBtn = document.getElementById('download-report-btn');
+const exportMistakesBtn = document.getElementById('export-mistakes-btn');
+const downloadReportModal = document.getElementById('download-report-modal');
+const closeDownloadReportBtn = document.getElementById('close-download-report-btn');
+const reportFormatSelect = document.getElementById('report-format-select') as HTMLSelectElement;
+const reportFormatHint = document.getElementById('report-format-hint');
+const confirmDownloadReportBtn = document.getElementById('confirm-download-report-btn') as HTMLButtonElement;
 
 // Analytics View Elements
 const analyticsStatsGrid = document.getElementById('analytics-stats-grid');
@@ -351,27 +644,92 @@ const analyticsModal = document.getElementById('analytics-modal');
 const closeModalBtn = document.getElementById('close-modal-btn');
 const modalSubjectTitle = document.getElementById('modal-subject-title');
 const modalBody = document.getElementById('modal-body');
+const weakAreasList = document.getElementById('weak-areas-list');
+const weakAreasSizeInput = document.getElementById('weak-areas-size') as HTMLInputElement;
+const weakAreasGenerateInput = document.getElementById('weak-areas-generate') as HTMLInputElement;
+const weakAreasDifficultySelect = document.getElementById('weak-areas-difficulty') as HTMLSelectElement;
+const weakAreasBuildBtn = document.getElementById('weak-areas-build-btn') as HTMLButtonElement;
+
+// Settings View Elements
+const settingsBtn = document.getElementById('settings-btn');
+const aiProviderSelect = document.getElementById('ai-provider-select') as HTMLSelectElement;
+const aiModelInput = document.getElementById('ai-model-input') as HTMLInputElement;
+const aiModelOptions = document.getElementById('ai-model-options') as HTMLDataListElement;
+const aiProviderDescription = document.getElementById('ai-provider-description');
+const saveSettingsBtn = document.getElementById('save-settings-btn') as HTMLButtonElement;
+const restoreBackupBtn = document.getElementById('restore-backup-btn') as HTMLButtonElement;
+const restorePreviewModal = document.getElementById('restore-preview-modal');
+const closeRestorePreviewBtn = document.getElementById('close-restore-preview-btn');
+const restorePreviewSummary = document.getElementById('restore-preview-summary');
+const restorePreviewList = document.getElementById('restore-preview-list');
+const applyRestoreBtn = document.getElementById('apply-restore-btn') as HTMLButtonElement;
+
+// Question Bank View Elements
+const bankSearchInput = document.getElementById('bank-search-input') as HTMLInputElement;
+const bankSubjectFilter = document.getElementById('bank-subject-filter') as HTMLSelectElement;
+const bankSelectionCount = document.getElementById('bank-selection-count');
+const bankCreateTestBtn = document.getElementById('bank-create-test-btn') as HTMLButtonElement;
+const bankQuestionsContainer = document.getElementById('bank-questions-container');
 
 // --- Test State ---
 let currentTest: Test | null = null;
 let currentQuestionIndex = 0;
-let userAnswers: (number | null)[] = [];
+let userAnswers: UserAnswer[] = [];
 let questionStatuses: QuestionStatus[] = [];
 let timerInterval: number | null = null;
-let timeRemaining = 0; // in seconds
+let timeRemaining = 0; // in seconds; for sectioned tests, left in the current section
+let currentSectionIndex = 0;
+let sectionTimes: number[] = []; // seconds used in each submitted section
+let attemptLanguage = ''; // language the attempt's questions are shown in; see localizeQuestion()
 let timePerQuestion: number[] = [];
 let questionStartTime = 0;
 let currentAttemptForReport: TestAttempt | null = null;
 let reportReturnView: HTMLElement = performanceView;
 
 
-// --- Gemini AI ---
-let ai: GoogleGenAI;
-try {
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-} catch (e) {
-    console.error("Failed to initialize GoogleGenAI", e);
-    alert("Error: Could not initialize AI. Please ensure API_KEY is set correctly.");
+// --- AI Provider Layer ---
+// Every AI call goes through an AIProvider, so generation flows can run against Gemini or the offline mock.
+// New AI features should add a method here and implement it in each provider.
+type AIProviderId = 'gemini' | 'mock';
+
+type AIContents = string | { parts: ({ text: string } | { inlineData: { mimeType: string; data: string } })[] };
+
+interface QuestionGenerationRequest {
+    contents: AIContents; // full prompt, optionally with page images
+    count: number;
+    language: string;
+    source: string; // topic name or file name, used to label mock questions
+}
+
+interface MistakeAnalysisRequest {
+    question: Question;
+    userAnswerIndex: number;
+}
+
+interface QuestionTranslationRequest {
+    questions: QuestionText[];
+    from: string;
+    to: QuestionLanguage;
+}
+
+interface MistakeAnalysis {
+    userAnswerAnalysis: string;
+    otherOptionsAnalysis: { option: string; reason: string }[];
+}
+
+interface AIProvider {
+    id: AIProviderId;
+    label: string;
+    description: string;
+    models: string[]; // first entry is the default
+    generateQuestions(request: QuestionGenerationRequest, model: string): Promise<Question[]>;
+    analyzeMistake(request: MistakeAnalysisRequest, model: string): Promise<MistakeAnalysis>;
+    translateQuestions(request: QuestionTranslationRequest, model: string): Promise<QuestionText[]>; // same order as the request
+}
+
+interface AISettings {
+    provider: AIProviderId;
+    model: string;
 }
 
 const questionSchema = {
@@ -383,466 +741,3494 @@ const questionSchema = {
             items: { type: Type.STRING },
             description: "An array of 4 strings representing the options."
         },
-        answer: { type: Type.INTEGER, description: "0-indexed integer for the correct option." },
+        answer: { type: Type.INTEGER, description: "0-indexed integer for the correct option. For 'multiple', the first correct option." },
         explanation: { type: Type.STRING },
         subject: { type: Type.STRING, description: "General subject, e.g., History, Geography, Polity." },
         topic: { type: Type.STRING, description: "Specific topic within the subject." },
+        difficulty: {
+            type: Type.STRING,
+            enum: ["easy", "medium", "hard"],
+            description: "How hard the question is for a well-prepared UPSC aspirant."
+        },
+        type: {
+            type: Type.STRING,
+            enum: ["single", "multiple", "statements", "match", "assertion-reason"],
+            description: "Question type. Defaults to 'single' (one correct option)."
+        },
+        answers: {
+            type: Type.ARRAY,
+            items: { type: Type.INTEGER },
+            description: "For 'multiple' only: 0-indexed integers of every correct option."
+        },
+        statements: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "For 'statements' only: the numbered statements, without their numbers. 'question' is the lead-in line."
+        },
+        matchLists: {
+            type: Type.OBJECT,
+            properties: {
+                left: { type: Type.ARRAY, items: { type: Type.STRING }, description: "List I items, labelled A, B, C, ..." },
+                right: { type: Type.ARRAY, items: { type: Type.STRING }, description: "List II items, labelled 1, 2, 3, ..." },
+            },
+            required: ["left", "right"],
+            description: "For 'match' only. The options are codes such as 'A-2, B-1, C-4, D-3'."
+        },
+        assertion: { type: Type.STRING, description: "For 'assertion-reason' only: the Assertion (A)." },
+        reason: { type: Type.STRING, description: "For 'assertion-reason' only: the Reason (R). Use the four standard A/R options." },
+        prompt: { type: Type.STRING, description: "For 'statements' and 'match': the closing line, e.g. 'Which of the statements given above are correct?'" },
+        figure: {
+            type: Type.OBJECT,
+            properties: {
+                page: { type: Type.INTEGER, description: "1-based number of the image the figure is on." },
+                box: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "Bounding box [ymin, xmin, ymax, xmax], scaled 0-1000." },
+            },
+            required: ["page", "box"],
+            description: "Only when generating from images, and the question needs a map, chart, diagram or table shown in them: where that figure is."
+        },
     },
     required: ["question", "options", "answer", "explanation", "subject", "topic"]
 };
 
-// --- Local Storage Utilities ---
-function getFromStorage<T>(key: string, defaultValue: T): T {
-    try {
-        const item = localStorage.getItem(key);
-        return item ? JSON.parse(item) : defaultValue;
-    } catch (error) {
-        console.error(`Error reading from localStorage key “${key}”:`, error);
-        return defaultValue;
+const questionTextSchema = {
+    type: Type.OBJECT,
+    properties: {
+        question: questionSchema.properties.question,
+        options: questionSchema.properties.options,
+        explanation: questionSchema.properties.explanation,
+        statements: questionSchema.properties.statements,
+        matchLists: questionSchema.properties.matchLists,
+        assertion: questionSchema.properties.assertion,
+        reason: questionSchema.properties.reason,
+        prompt: questionSchema.properties.prompt,
+    },
+    required: ["question", "options", "explanation"]
+};
+
+// Appended to every generation prompt so the model mixes in the structured UPSC formats questionSchema allows
+const QUESTION_TYPE_GUIDANCE = `Mix in the other UPSC formats where they suit the content: statement-based questions (type "statements", with the statements listed separately and options such as "Only one" / "Only two"), match-the-following (type "match", with List I and List II and coded options), assertion-reason (type "assertion-reason"), and occasionally multiple-correct (type "multiple", listing every correct option in "answers"). Leave "type" out for ordinary single-answer questions.`;
+
+// Gemini
+let geminiClient: GoogleGenAI | null = null;
+
+function getGeminiClient(): GoogleGenAI {
+    if (!geminiClient) {
+        if (!process.env.API_KEY) {
+            throw new Error("Gemini is not configured. Set GEMINI_API_KEY, or switch to the offline mock provider in Settings.");
+        }
+        geminiClient = new GoogleGenAI({ apiKey: process.env.API_KEY });
     }
+    return geminiClient;
 }
 
-function saveToStorage<T>(key: string, value: T): void {
-    try {
-        localStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-        console.error(`Error writing to localStorage key “${key}”:`, error);
+async function generateGeminiJSON<T>(contents: AIContents, responseSchema: object, model: string): Promise<T> {
+    const response = await getGeminiClient().models.generateContent({
+        model,
+        contents,
+        config: {
+            responseMimeType: "application/json",
+            responseSchema,
+        },
+    });
+
+    if (!response || !response.text) {
+        console.error("Invalid AI Response:", response);
+        const finishReason = response?.candidates?.[0]?.finishReason;
+        let errorMessage = "AI did not return a valid response. It might be empty or malformed.";
+        if (finishReason === 'SAFETY') {
+            errorMessage = "The request was blocked due to safety concerns. Please adjust your input text or file.";
+        } else if (finishReason) {
+            errorMessage = `Generation failed. Reason: ${finishReason}.`;
+        }
+        throw new Error(errorMessage);
     }
+
+    return JSON.parse(response.text);
 }
 
-// --- Data Restore Logic ---
-restoreFileInput.addEventListener('change', (event) => {
-    const input = event.target as HTMLInputElement;
-    const file = input.files?.[0];
-    if (!file) return;
+const geminiProvider: AIProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Generates questions and analysis with the Gemini API. Requires GEMINI_API_KEY.',
+    models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash'],
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        try {
-            const text = e.target?.result as string;
-            let data;
-            try {
-                data = JSON.parse(text);
-            } catch (err) {
-                throw new Error("The selected file is not a valid JSON file.");
-            }
+    generateQuestions(request, model) {
+        return generateGeminiJSON<Question[]>(request.contents, { type: Type.ARRAY, items: questionSchema }, model);
+    },
 
-            // Case 1: Full Backup (contains 'tests' or 'performanceHistory' arrays)
-            const isBackup = Array.isArray(data.tests) || Array.isArray(data.performanceHistory);
+    analyzeMistake({ question, userAnswerIndex }, model) {
+        const userAnswerText = question.options[userAnswerIndex];
+        const correctAnswerText = question.options[question.answer];
+
+        const prompt = `
+            Analyze the following competitive exam (UPSC-style) question. The user incorrectly chose the option: "${userAnswerText}". The correct answer is: "${correctAnswerText}".
             
-            // Case 2: Single Test Export (contains 'questions' array and 'name')
-            const isSingleTest = data.name && Array.isArray(data.questions);
+            Question: "${question.question}"
 
-            if (isBackup) {
-                if (confirm("This will merge the uploaded backup data with your current data. Duplicates will be handled automatically where possible. Continue?")) {
-                    const currentTests = getFromStorage<Test[]>('tests', []);
-                    const currentHistory = getFromStorage<TestAttempt[]>('performanceHistory', []);
-                    
-                    const newTests = Array.isArray(data.tests) ? [...data.tests, ...currentTests] : currentTests;
-                    const newHistory = Array.isArray(data.performanceHistory) ? [...data.performanceHistory, ...currentHistory] : currentHistory;
-
-                    // De-duplicate tests based on ID
-                    const uniqueTests = Array.from(new Map(newTests.map(item => [item.id, item])).values());
-                    
-                    saveToStorage('tests', uniqueTests);
-                    saveToStorage('performanceHistory', newHistory);
-
-                    alert("Data restored successfully!");
-                    // Reload current view if necessary
-                    if (!allTestsView.classList.contains('hidden')) renderAllTests();
-                    if (!performanceView.classList.contains('hidden')) renderPerformanceHistory();
-                    if (!analyticsView.classList.contains('hidden')) renderAnalyticsDashboard();
+            Please provide a detailed analysis in a simple JSON format. The analysis should explain:
+            1.  Why the user's selected answer ("${userAnswerText}") is incorrect.
+            2.  A brief analysis of why each of the other incorrect options are also wrong.
+            
+            Do not explain why the correct answer is correct, as the user already has a separate explanation for that. Focus only on the incorrect options.
+        `;
+
+        const analysisSchema = {
+            type: Type.OBJECT,
+            properties: {
+                userAnswerAnalysis: { 
+                    type: Type.STRING, 
+                    description: `A detailed explanation of why the user's choice, '${userAnswerText}', is incorrect.`
+                },
+                otherOptionsAnalysis: {
+                    type: Type.ARRAY,
+                    description: "An analysis of the other incorrect options.",
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            option: { type: Type.STRING, description: "The text of the incorrect option." },
+                            reason: { type: Type.STRING, description: "The reason why this option is incorrect." }
+                        },
+                         required: ["option", "reason"]
+                    }
                 }
-            } 
-            else if (isSingleTest) {
-                if (confirm(`This file appears to be a single test: "${data.name}". Would you like to import it?`)) {
-                     const newTest: Test = {
-                        ...data,
-                        id: `test_${Date.now()}_restored`, // Ensure unique ID to prevent conflicts
-                        name: `${data.name} (Restored)`
-                    };
+            },
+            required: ["userAnswerAnalysis", "otherOptionsAnalysis"]
+        };
 
-                    const tests = getFromStorage<Test[]>('tests', []);
-                    tests.unshift(newTest);
-                    saveToStorage('tests', tests);
+        return generateGeminiJSON<MistakeAnalysis>(prompt, analysisSchema, model);
+    },
 
-                    alert(`Test "${data.name}" imported successfully!`);
-                    if (!allTestsView.classList.contains('hidden')) renderAllTests();
-                }
-            } 
-            else {
-                throw new Error("Invalid file format. Please upload a valid Backup JSON or a single Test JSON.");
-            }
+    translateQuestions({ questions, from, to }, model) {
+        const prompt = `
+            Translate the following UPSC exam questions from ${from} to ${to}, in the style of the official bilingual question paper.
+            Return exactly ${questions.length} items in the same order. Keep every option in the same position, and keep names,
+            numbers, dates and option codes such as "A-2, B-1" as they are. Translate only the fields that are present.
 
-        } catch (error) {
-            console.error("Error restoring data:", error);
-            alert(`Failed to restore data. ${error.message}`);
-        } finally {
-            input.value = ''; // Reset input
-        }
-    };
-    reader.readAsText(file);
-});
+            Questions (JSON): ${JSON.stringify(questions)}
+        `;
+        return generateGeminiJSON<QuestionText[]>(prompt, { type: Type.ARRAY, items: questionTextSchema }, model);
+    },
+};
 
+// Offline mock: deterministic fixture data, so generation flows can be developed and tested without an API key
+const MOCK_QUESTIONS: Question[] = [
+    {
+        question: "Which Article of the Constitution of India deals with the Right to Constitutional Remedies?",
+        options: ["Article 14", "Article 21", "Article 32", "Article 44"],
+        answer: 2,
+        explanation: "Article 32 lets citizens move the Supreme Court for enforcement of Fundamental Rights. Dr. Ambedkar called it the 'heart and soul' of the Constitution.",
+        subject: "Polity",
+        topic: "Fundamental Rights",
+        difficulty: "easy"
+    },
+    {
+        question: "Consider the following statements about the Indian monsoon:\n1. The south-west monsoon reaches Kerala around the first week of June.\n2. The Tamil Nadu coast receives most of its rainfall from the south-west monsoon.\nWhich of the statements given above is/are correct?",
+        options: ["1 only", "2 only", "Both 1 and 2", "Neither 1 nor 2"],
+        answer: 0,
+        explanation: "The monsoon onset over Kerala is around 1 June. The Tamil Nadu coast gets most of its rain from the north-east (retreating) monsoon, so statement 2 is incorrect.",
+        subject: "Geography",
+        topic: "Climate",
+        difficulty: "medium"
+    },
+    {
+        question: "The Battle of Plassey was fought in which year?",
+        options: ["1757", "1764", "1761", "1857"],
+        answer: 0,
+        explanation: "The Battle of Plassey (1757) saw Robert Clive's forces defeat Siraj-ud-Daulah, laying the foundation of British rule in Bengal.",
+        subject: "History",
+        topic: "Modern India",
+        difficulty: "easy"
+    },
+    {
+        question: "Which of the following is the apex body for formulating monetary policy in India?",
+        options: ["Finance Commission", "Monetary Policy Committee", "NITI Aayog", "SEBI"],
+        answer: 1,
+        explanation: "The Monetary Policy Committee, constituted under the RBI Act, fixes the policy repo rate needed to achieve the inflation target.",
+        subject: "Economy",
+        topic: "Monetary Policy",
+        difficulty: "medium"
+    },
+    {
+        question: "Which gas is the most abundant in the Earth's atmosphere?",
+        options: ["Oxygen", "Carbon dioxide", "Argon", "Nitrogen"],
+        answer: 3,
+        explanation: "Nitrogen makes up about 78% of the atmosphere by volume, followed by oxygen at about 21%.",
+        subject: "Science",
+        topic: "Environment",
+        difficulty: "easy"
+    },
+    {
+        question: "The 'Ramsar Convention' is related to the conservation of:",
+        options: ["Wetlands", "Migratory birds only", "Ozone layer", "Desert ecosystems"],
+        answer: 0,
+        explanation: "The Ramsar Convention (1971) is an intergovernmental treaty for the conservation and wise use of wetlands.",
+        subject: "Environment",
+        topic: "International Conventions",
+        difficulty: "medium"
+    },
+    {
+        type: 'multiple',
+        question: "Which of the following are Fundamental Duties under Article 51A? (Select all that apply)",
+        options: ["To abide by the Constitution", "To pay taxes", "To protect the natural environment", "To vote in elections"],
+        answer: 0,
+        answers: [0, 2],
+        explanation: "Article 51A includes abiding by the Constitution and protecting the natural environment. Paying taxes and voting are not listed as Fundamental Duties.",
+        subject: "Polity",
+        topic: "Fundamental Duties",
+        difficulty: "medium"
+    },
+    {
+        type: 'statements',
+        question: "Consider the following statements about the Western Ghats:",
+        statements: [
+            "They are older than the Himalayas.",
+            "Anamudi is their highest peak.",
+            "They are a UNESCO World Heritage Site."
+        ],
+        prompt: "How many of the above statements are correct?",
+        options: ["Only one", "Only two", "All three", "None"],
+        answer: 2,
+        explanation: "All three are correct: the Western Ghats predate the Himalayas, Anamudi (2,695 m) is the highest peak, and they were inscribed as a World Heritage Site in 2012.",
+        subject: "Geography",
+        topic: "Physiography",
+        difficulty: "hard"
+    },
+    {
+        type: 'match',
+        question: "Match List I with List II:",
+        matchLists: {
+            left: ["Champaran Satyagraha", "Kheda Satyagraha", "Ahmedabad Mill Strike", "Dandi March"],
+            right: ["1918 (March)", "1930", "1917", "1918 (February)"]
+        },
+        prompt: "Select the correct answer using the code given below:",
+        options: ["A-3, B-1, C-4, D-2", "A-3, B-4, C-1, D-2", "A-1, B-3, C-4, D-2", "A-4, B-1, C-3, D-2"],
+        answer: 0,
+        explanation: "Champaran was in 1917, Kheda began in March 1918, the Ahmedabad mill strike was in February-March 1918 and the Dandi March was in 1930.",
+        subject: "History",
+        topic: "National Movement",
+        difficulty: "hard"
+    },
+    {
+        type: 'assertion-reason',
+        question: "Read the Assertion (A) and Reason (R) and choose the correct option.",
+        assertion: "The Rajya Sabha is a permanent House.",
+        reason: "One-third of its members retire every second year.",
+        options: [
+            "Both A and R are true, and R is the correct explanation of A",
+            "Both A and R are true, but R is not the correct explanation of A",
+            "A is true, but R is false",
+            "A is false, but R is true"
+        ],
+        answer: 0,
+        explanation: "The Rajya Sabha is never dissolved; it stays in existence because only one-third of its members retire every two years.",
+        subject: "Polity",
+        topic: "Parliament"
+    },
+];
 
-// --- View Management ---
-const views = [mainView, createTestView, editTestView, allTestsView, testDetailView, testAttemptView, performanceView, performanceReportView, analyticsView];
+const MOCK_LATENCY_MS = 300;
 
-function showView(viewToShow) {
-    views.forEach(view => {
-        if (view === viewToShow) {
-            view.classList.remove('hidden');
-        } else {
-            view.classList.add('hidden');
-        }
-    });
-    window.scrollTo(0, 0);
+function mockDelay(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
 }
 
-// --- Event Listeners for navigation ---
-createTestCard.addEventListener('click', () => showView(createTestView));
-allTestsCard.addEventListener('click', () => {
-    renderAllTests();
-    showView(allTestsView);
-});
-performanceCard.addEventListener('click', () => {
-    renderPerformanceHistory();
-    showView(performanceView);
-});
-analyticsCard.addEventListener('click', () => {
-    renderAnalyticsDashboard();
-    showView(analyticsView);
-});
-
-backToHomeFromCreateBtn.addEventListener('click', () => showView(mainView));
+const mockProvider: AIProvider = {
+    id: 'mock',
+    label: 'Offline mock',
+    description: 'Returns fixed sample questions and analysis without calling any API. For development and testing.',
+    models: ['fixtures'],
+
+    async generateQuestions({ count, source }) {
+        await mockDelay();
+        return Array.from({ length: count }, (_, i) => {
+            const fixture = MOCK_QUESTIONS[i % MOCK_QUESTIONS.length];
+            const round = Math.floor(i / MOCK_QUESTIONS.length);
+            return {
+                ...fixture,
+                options: [...fixture.options],
+                question: `${fixture.question} (${source}${round > 0 ? `, set ${round + 1}` : ''})`,
+                explanation: `${fixture.explanation} [Mock question for "${source}"]`
+            };
+        });
+    },
+
+    async analyzeMistake({ question, userAnswerIndex }) {
+        await mockDelay();
+        return {
+            userAnswerAnalysis: `"${question.options[userAnswerIndex]}" does not match the key fact the question tests. (Mock analysis)`,
+            otherOptionsAnalysis: question.options
+                .filter((_, i) => i !== question.answer && i !== userAnswerIndex)
+                .map(option => ({ option, reason: 'This option is unrelated to the concept being tested. (Mock analysis)' }))
+        };
+    },
+
+    async translateQuestions({ questions, to }) {
+        await mockDelay();
+        const tag = (text: string) => `[${to}] ${text}`;
+        return questions.map(q => ({
+            question: tag(q.question),
+            options: q.options.map(tag),
+            explanation: tag(q.explanation),
+            statements: q.statements?.map(tag),
+            matchLists: q.matchLists && { left: q.matchLists.left.map(tag), right: q.matchLists.right.map(tag) },
+            assertion: q.assertion && tag(q.assertion),
+            reason: q.reason && tag(q.reason),
+            prompt: q.prompt && tag(q.prompt),
+        }));
+    },
+};
+
+const AI_PROVIDERS: Record<AIProviderId, AIProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+};
+
+const DEFAULT_AI_SETTINGS: AISettings = { provider: 'gemini', model: geminiProvider.models[0] };
+
+function getAISettings(): Promise<AISettings> {
+    return getSetting<AISettings>(userKey('aiSettings'), DEFAULT_AI_SETTINGS);
+}
+
+// Resolves the provider and model chosen in Settings
+async function getAIProvider(): Promise<{ provider: AIProvider; model: string }> {
+    const settings = await getAISettings();
+    const provider = AI_PROVIDERS[settings.provider] ?? geminiProvider;
+    return { provider, model: settings.model || provider.models[0] };
+}
+
+// --- Local Storage Utilities ---
+// Only used to read data written by earlier versions of the app; everything is persisted in IndexedDB now.
+function getFromStorage<T>(key: string, defaultValue: T): T {
+    try {
+        const item = localStorage.getItem(key);
+        return item ? JSON.parse(item) : defaultValue;
+    } catch (error) {
+        console.error(`Error reading from localStorage key “${key}”:`, error);
+        return defaultValue;
+    }
+}
+
+// --- Data Schema & Migrations ---
+// Stored tests and attempts, and exported JSON files, carry the schema version they were written with. Older
+// records are brought up to date by running the migrations after their version, in order, whenever they are read
+// from storage, imported or restored. Records from before versioning have no version and are treated as version 1;
+// every step only fills in what is missing, so it is also safe on unversioned records that already have the field.
+// Sample backup files in each historical shape, one per version, are in fixtures/schema/; tests/schema-migrations.test.ts upgrades them.
+const SCHEMA_VERSION = 4;
+
+type RawRecord = Record<string, unknown>; // a record as read from storage or a file, before migration
+
+function isRawRecord(value: unknown): value is RawRecord {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function rawArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
+
+interface SchemaMigration {
+    version: number; // the version this step upgrades to
+    description: string;
+    test?: (test: RawRecord) => RawRecord;
+    attempt?: (attempt: RawRecord) => RawRecord; // runs after the test step has upgraded attempt.fullTest
+}
+
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+    {
+        version: 2,
+        description: 'marking scheme on every test',
+        test: test => ({
+            ...test,
+            marksPerQuestion: Number(test.marksPerQuestion) || 1,
+            negativeMarking: Number(test.negativeMarking) || 0
+        })
+    },
+    {
+        version: 3,
+        description: 'attempt IDs, and answers and times for every question',
+        attempt: attempt => {
+            const fullTest = isRawRecord(attempt.fullTest) ? attempt.fullTest : null;
+            const questions = rawArray(fullTest?.questions) as Question[];
+            const answers = rawArray(attempt.userAnswers) as UserAnswer[];
+            const times = rawArray(attempt.timePerQuestion);
+            const count = fullTest ? questions.length : answers.length;
+            const userAnswers: UserAnswer[] = Array.from({ length: count }, (_, i) => answers[i] ?? null);
+            const correct = questions.filter((q, i) => isCorrectAnswer(q, userAnswers[i])).length;
+            const unanswered = userAnswers.filter(answer => answer === null).length;
+            const countOr = (value: unknown, fallback: number) => typeof value === 'number' ? value : fallback;
+            return {
+                ...attempt,
+                id: typeof attempt.id === 'string' && attempt.id
+                    ? attempt.id
+                    : legacyAttemptId({ testId: String(attempt.testId), completedAt: String(attempt.completedAt) }),
+                testName: (typeof attempt.testName === 'string' && attempt.testName) || (typeof fullTest?.name === 'string' && fullTest.name) || 'Untitled Test',
+                userAnswers,
+                timePerQuestion: Array.from({ length: count }, (_, i) => Number(times[i]) || 0),
+                timeTaken: Number(attempt.timeTaken) || 0,
+                totalQuestions: countOr(attempt.totalQuestions, count),
+                correctAnswers: countOr(attempt.correctAnswers, correct),
+                incorrectAnswers: countOr(attempt.incorrectAnswers, count - correct - unanswered),
+                unanswered: countOr(attempt.unanswered, unanswered)
+            };
+        }
+    },
+    {
+        version: 4,
+        description: 'qualifying score on every test',
+        test: test => ({ ...test, qualifyingPercent: typeof test.qualifyingPercent === 'number' ? test.qualifyingPercent : DEFAULT_QUALIFYING_PERCENT })
+    }
+];
+
+function schemaVersionOf(record: RawRecord | null | undefined, fallback = 1): number {
+    const version = record?.schemaVersion;
+    return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : fallback;
+}
+
+// The version of an imported file's records; files from a newer version of the app are refused rather than misread
+function fileSchemaVersion(data: RawRecord): number {
+    const version = schemaVersionOf(data);
+    if (version > SCHEMA_VERSION) {
+        throw new Error(`This file was saved by a newer version of the app (data version ${version}; this version reads up to ${SCHEMA_VERSION}). Update the app and try again.`);
+    }
+    return version;
+}
+
+function migrateTest(raw: RawRecord, fromVersion = schemaVersionOf(raw)): Test {
+    const test = SCHEMA_MIGRATIONS
+        .filter(step => step.version > fromVersion && step.test)
+        .reduce((record, step) => step.test(record), raw);
+    return coerceTest(test);
+}
+
+function migrateAttempt(raw: RawRecord, fromVersion = schemaVersionOf(raw)): TestAttempt {
+    const attempt = SCHEMA_MIGRATIONS
+        .filter(step => step.version > fromVersion)
+        .reduce((record, step) => {
+            const upgraded = step.test && isRawRecord(record.fullTest) ? { ...record, fullTest: step.test(record.fullTest) } : record;
+            return step.attempt ? step.attempt(upgraded) : upgraded;
+        }, raw);
+    return coerceAttempt(attempt);
+}
+
+function isCurrentSchema(record: RawRecord): boolean {
+    return schemaVersionOf(record) === SCHEMA_VERSION;
+}
+
+// Files, backups and old storage are never type-checked, so a crafted record could put an object or an array
+// where text belongs. migrateTest() and migrateAttempt() finish by forcing every field to its declared type;
+// fields the app doesn't know are dropped.
+const QUESTION_LANGUAGES: QuestionLanguage[] = ['English', 'Hindi'];
+const QUESTION_STATUSES: QuestionStatus[] = ['notVisited', 'notAnswered', 'answered', 'marked', 'markedAndAnswered'];
+
+function coerceText(value: unknown): string {
+    return typeof value === 'string' ? value : typeof value === 'number' && Number.isFinite(value) ? String(value) : '';
+}
+
+function coerceOptionalText(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+function coerceTextList(value: unknown): string[] {
+    return rawArray(value).map(coerceText);
+}
+
+function coerceNumber(value: unknown, fallback = 0): number {
+    const number = typeof value === 'number' || typeof value === 'string' ? Number(value) : NaN;
+    return Number.isFinite(number) ? number : fallback;
+}
+
+function coerceAnswer(value: unknown): UserAnswer {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (Array.isArray(value)) return value.filter((i): i is number => typeof i === 'number' && Number.isFinite(i));
+    return null;
+}
+
+function coerceQuestionText(input: RawRecord): QuestionText {
+    const lists = isRawRecord(input.matchLists) ? input.matchLists : null;
+    return {
+        question: coerceText(input.question),
+        options: coerceTextList(input.options),
+        explanation: coerceText(input.explanation),
+        statements: Array.isArray(input.statements) ? coerceTextList(input.statements) : undefined,
+        matchLists: lists ? { left: coerceTextList(lists.left), right: coerceTextList(lists.right) } : undefined,
+        assertion: coerceOptionalText(input.assertion),
+        reason: coerceOptionalText(input.reason),
+        prompt: coerceOptionalText(input.prompt)
+    };
+}
+
+function coerceQuestion(raw: unknown): Question {
+    const input = isRawRecord(raw) ? raw : {};
+    const translations = isRawRecord(input.translations) ? input.translations : null;
+    return {
+        ...coerceQuestionText(input),
+        id: coerceOptionalText(input.id),
+        type: QUESTION_TYPES.find(type => type === input.type),
+        answer: Math.trunc(coerceNumber(input.answer)),
+        answers: Array.isArray(input.answers) ? input.answers.map(answer => Math.trunc(coerceNumber(answer))) : undefined,
+        subject: coerceText(input.subject),
+        topic: coerceText(input.topic),
+        difficulty: DIFFICULTY_LEVELS.find(level => level === input.difficulty),
+        source: coerceOptionalText(input.source),
+        createdAt: coerceOptionalText(input.createdAt),
+        translations: translations
+            ? Object.fromEntries(QUESTION_LANGUAGES.flatMap(language => {
+                const text = translations[language];
+                return isRawRecord(text) ? [[language, coerceQuestionText(text)]] : [];
+            }))
+            : undefined,
+        images: Array.isArray(input.images)
+            ? input.images.filter(isRawRecord).filter(image => typeof image.id === 'string')
+                .map(image => ({ id: image.id as string, caption: coerceOptionalText(image.caption) }))
+            : undefined
+    };
+}
+
+function coerceTest(raw: RawRecord): Test {
+    return {
+        id: coerceText(raw.id),
+        name: coerceText(raw.name),
+        questions: rawArray(raw.questions).map(coerceQuestion),
+        duration: coerceNumber(raw.duration),
+        language: coerceText(raw.language) || 'English',
+        createdAt: coerceText(raw.createdAt),
+        marksPerQuestion: coerceNumber(raw.marksPerQuestion, 1),
+        negativeMarking: coerceNumber(raw.negativeMarking),
+        owner: coerceOptionalText(raw.owner),
+        isReview: raw.isReview === true || undefined,
+        presetId: coerceOptionalText(raw.presetId),
+        qualifyingPercent: coerceNumber(raw.qualifyingPercent, DEFAULT_QUALIFYING_PERCENT),
+        sections: Array.isArray(raw.sections)
+            ? raw.sections.filter(isRawRecord).map(section => ({
+                name: coerceText(section.name),
+                questionCount: coerceNumber(section.questionCount),
+                duration: coerceNumber(section.duration),
+                marksPerQuestion: coerceNumber(section.marksPerQuestion, 1),
+                negativeMarking: coerceNumber(section.negativeMarking)
+            }))
+            : undefined,
+        schemaVersion: SCHEMA_VERSION
+    };
+}
+
+function coerceAttempt(raw: RawRecord): TestAttempt {
+    return {
+        id: coerceText(raw.id),
+        testId: coerceText(raw.testId),
+        testName: coerceText(raw.testName),
+        userAnswers: rawArray(raw.userAnswers).map(coerceAnswer),
+        timeTaken: coerceNumber(raw.timeTaken),
+        timePerQuestion: rawArray(raw.timePerQuestion).map(time => coerceNumber(time)),
+        completedAt: coerceText(raw.completedAt),
+        score: coerceNumber(raw.score),
+        totalQuestions: coerceNumber(raw.totalQuestions),
+        correctAnswers: coerceNumber(raw.correctAnswers),
+        incorrectAnswers: coerceNumber(raw.incorrectAnswers),
+        unanswered: coerceNumber(raw.unanswered),
+        questionStatuses: Array.isArray(raw.questionStatuses)
+            ? raw.questionStatuses.map(status => QUESTION_STATUSES.find(known => known === status) ?? 'notVisited')
+            : undefined,
+        sectionTimes: Array.isArray(raw.sectionTimes) ? raw.sectionTimes.map(time => coerceNumber(time)) : undefined,
+        fullTest: coerceTest(isRawRecord(raw.fullTest) ? raw.fullTest : {}),
+        owner: coerceOptionalText(raw.owner),
+        schemaVersion: SCHEMA_VERSION
+    };
+}
+
+// --- IndexedDB Storage Repository ---
+const DB_NAME = 'upsc-test-generator';
+const DB_VERSION = 4;
+
+type StoreName = 'users' | 'tests' | 'attempts' | 'settings' | 'questions' | 'reviews' | 'images';
+type OwnedStoreName = 'tests' | 'attempts' | 'questions' | 'reviews' | 'images';
+
+// Tests are stored with the IDs of their bank questions; getTests()/getTest() fill `questions` back in.
+// Records written before the question bank still embed `questions` and have no `questionIds`.
+type StoredTest = Omit<Test, 'questions'> & { questionIds?: string[]; questions?: Question[] };
+
+interface SettingRecord<T = unknown> {
+    key: string;
+    value: T;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            if (event.oldVersion < 1) {
+                db.createObjectStore('users', { keyPath: 'username' });
+                // Tests and attempts are keyed by owner + id, so two accounts can hold the same imported test
+                db.createObjectStore('tests', { keyPath: ['owner', 'id'] }).createIndex('owner', 'owner');
+                db.createObjectStore('attempts', { keyPath: ['owner', 'id'] }).createIndex('owner', 'owner');
+                db.createObjectStore('settings', { keyPath: 'key' });
+            }
+            if (event.oldVersion < 2) {
+                db.createObjectStore('questions', { keyPath: ['owner', 'id'] }).createIndex('owner', 'owner');
+            }
+            if (event.oldVersion < 3) {
+                db.createObjectStore('reviews', { keyPath: ['owner', 'id'] }).createIndex('owner', 'owner');
+            }
+            if (event.oldVersion < 4) {
+                db.createObjectStore('images', { keyPath: ['owner', 'id'] }).createIndex('owner', 'owner');
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(toStorageError(request.error));
+        request.onblocked = () => reject(new Error('The database is open in another tab with an older version. Close other tabs of this app and reload.'));
+    });
+}
+
+// Opens the database once per page load and runs the one-off localStorage migration before anything reads from it
+function getDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = openDatabase().then(async db => {
+            await migrateFromLocalStorage(db);
+            return db;
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+function toStorageError(error: DOMException | null): Error {
+    if (error?.name === 'QuotaExceededError') {
+        return new Error('Your browser storage is full. Delete some old tests or attempts and try again.');
+    }
+    return new Error(`Could not access browser storage${error?.message ? `: ${error.message}` : '.'}`);
+}
+
+// Runs `work` in a single transaction and resolves with the result of the request it returns once the transaction commits
+function runTransaction<T = void>(db: IDBDatabase, storeNames: StoreName[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => IDBRequest<T> | void): Promise<T> {
+    return new Promise((resolve, reject) => {
+        let tx: IDBTransaction;
+        try {
+            tx = db.transaction(storeNames, mode);
+        } catch (error) {
+            reject(toStorageError(error as DOMException));
+            return;
+        }
+        const request = work(tx);
+        tx.oncomplete = () => resolve(request ? request.result : undefined);
+        tx.onerror = () => reject(toStorageError(tx.error));
+        tx.onabort = () => reject(toStorageError(tx.error));
+    });
+}
+
+function requireUsername(): string {
+    if (!currentUser) {
+        throw new Error('No user is logged in.');
+    }
+    return currentUser.username;
+}
+
+function byNewest<T>(dateOf: (item: T) => string) {
+    return (a: T, b: T) => new Date(dateOf(b)).getTime() - new Date(dateOf(a)).getTime();
+}
+
+async function getAllForOwner<T>(storeName: OwnedStoreName): Promise<T[]> {
+    const owner = requireUsername();
+    const db = await getDatabase();
+    return runTransaction<T[]>(db, [storeName], 'readonly', tx => tx.objectStore(storeName).index('owner').getAll(owner));
+}
+
+async function putForOwner<T extends object>(storeName: OwnedStoreName, records: T[]): Promise<void> {
+    const owner = requireUsername();
+    const db = await getDatabase();
+    await runTransaction(db, [storeName], 'readwrite', tx => {
+        const store = tx.objectStore(storeName);
+        records.forEach(record => store.put({ ...record, owner }));
+    });
+}
+
+// Users
+async function getUsers(): Promise<User[]> {
+    const db = await getDatabase();
+    return runTransaction<User[]>(db, ['users'], 'readonly', tx => tx.objectStore('users').getAll());
+}
+
+async function getUser(username: string): Promise<User | undefined> {
+    const db = await getDatabase();
+    return runTransaction<User | undefined>(db, ['users'], 'readonly', tx => tx.objectStore('users').get(username.toLowerCase()));
+}
+
+async function saveUser(user: User): Promise<void> {
+    const db = await getDatabase();
+    await runTransaction(db, ['users'], 'readwrite', tx => { tx.objectStore('users').put(user); });
+}
+
+// Question bank (scoped to the logged-in user, newest first). A question keeps its ID across every test
+// that uses it, so an edit in one test shows up in the others and analytics can count it once.
+function newQuestionId(): string {
+    return `q_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function questionFingerprint(question: Question): string {
+    const imageIds = (question.images ?? []).map(image => image.id);
+    return [questionStemText(question), ...question.options].map(normalizeQuestionText).concat(imageIds).join('|');
+}
+
+async function getBankQuestions(): Promise<Question[]> {
+    const records = await getAllForOwner<Question & { owner?: string }>('questions');
+    return records
+        .map(({ owner, ...question }) => question)
+        .sort(byNewest(q => q.createdAt));
+}
+
+// Question images (scoped to the logged-in user). Each image is stored once as a compressed Blob under an ID
+// derived from its content, and questions refer to it by that ID, so test and attempt records stay small.
+interface ImageRecord {
+    id: string;
+    blob: Blob;
+}
+
+async function saveImage(blob: Blob): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+    const id = `img_${Array.from(digest.slice(0, 12), b => b.toString(16).padStart(2, '0')).join('')}`;
+    await putForOwner<ImageRecord>('images', [{ id, blob }]);
+    return id;
+}
+
+async function getImage(id: string): Promise<Blob | null> {
+    const owner = requireUsername();
+    const db = await getDatabase();
+    const record = await runTransaction<ImageRecord | undefined>(db, ['images'], 'readonly', tx => tx.objectStore('images').get([owner, id]));
+    return record?.blob ?? null;
+}
+
+// Tests (scoped to the logged-in user, newest first)
+async function hydrateTests(records: StoredTest[]): Promise<Test[]> {
+    const bank = new Map((await getBankQuestions()).map(q => [q.id, q]));
+    const tests = records.map(({ questionIds, questions, ...test }) => migrateTest({
+        ...test,
+        questions: questionIds ? questionIds.map(id => bank.get(id)).filter(Boolean) : questions ?? []
+    }));
+
+    // Tests saved before the question bank existed move their questions into it the first time they're read,
+    // and tests saved with an older schema are written back upgraded
+    const staleIds = new Set(records.filter(r => !r.questionIds || !isCurrentSchema(r)).map(r => r.id));
+    if (staleIds.size > 0) await saveTests(tests.filter(t => staleIds.has(t.id)));
+    return tests;
+}
+
+async function getTests(): Promise<Test[]> {
+    const tests = await hydrateTests(await getAllForOwner<StoredTest>('tests'));
+    return tests.sort(byNewest(t => t.createdAt));
+}
+
+async function getTest(testId: string): Promise<Test | undefined> {
+    const owner = requireUsername();
+    const db = await getDatabase();
+    const record = await runTransaction<StoredTest | undefined>(db, ['tests'], 'readonly', tx => tx.objectStore('tests').get([owner, testId]));
+    return record ? (await hydrateTests([record]))[0] : undefined;
+}
+
+async function saveTest(test: Test): Promise<void> {
+    await saveTests([test]);
+}
+
+// Everything a question says, without its bank bookkeeping. Unlike questionFingerprint() it covers the answer,
+// explanation, type and difficulty, so a question only shares a bank record with one that is identical.
+function questionContentKey(question: Question): string {
+    const { id, source, createdAt, owner, ...content } = question as Question & { owner?: string };
+    return stableStringify(content);
+}
+
+function bankQuestionsByContent(bank: Question[]): Map<string, Question> {
+    return new Map(bank.map(q => [questionContentKey(q), q]));
+}
+
+// Gives questions without an ID the ID of an identical bank question, or a new one. A question that only shares
+// its stem and options with a bank question gets its own ID, so saving it never rewrites another test's copy.
+function assignQuestionIds(questions: Question[], bankByContent: Map<string, Question>, source: string, now: string): Question[] {
+    return questions.map(question => {
+        if (question.id) return question;
+        const key = questionContentKey(question);
+        const existing = bankByContent.get(key);
+        const assigned = existing
+            ? { ...question, id: existing.id, source: existing.source, createdAt: existing.createdAt }
+            : { ...question, id: newQuestionId(), source: question.source || source, createdAt: question.createdAt || now };
+        bankByContent.set(key, assigned);
+        return assigned;
+    });
+}
+
+// Questions in a file keep their content but not their IDs, which would otherwise point at (and overwrite) the
+// bank questions of the test the file was exported from
+function withoutQuestionIds(questions: Question[]): Question[] {
+    return questions.map(({ id, ...question }) => question);
+}
+
+// Writes the tests' questions to the bank and the tests themselves as lists of question IDs, in one transaction.
+// Questions without an ID reuse the ID of an identical bank question, or get a new one; IDs are set on the passed tests.
+async function saveTests(tests: Test[]): Promise<void> {
+    if (tests.length === 0) return;
+    const owner = requireUsername();
+    const bankByContent = bankQuestionsByContent(await getBankQuestions());
+    const now = new Date().toISOString();
+
+    tests.forEach(test => {
+        test.questions = assignQuestionIds(test.questions, bankByContent, test.name, now);
+    });
+
+    const db = await getDatabase();
+    await runTransaction(db, ['tests', 'questions'], 'readwrite', tx => {
+        tests.forEach(({ questions, ...test }) => {
+            questions.forEach(question => tx.objectStore('questions').put({ ...question, owner }));
+            tx.objectStore('tests').put({ ...test, questionIds: questions.map(q => q.id), owner, schemaVersion: SCHEMA_VERSION });
+        });
+    });
+}
+
+// Adds questions to the bank without a test; ones identical to a bank question are not added twice
+async function saveBankQuestions(questions: Question[]): Promise<void> {
+    const bankByContent = bankQuestionsByContent(await getBankQuestions());
+    await putForOwner('questions', assignQuestionIds(questions, bankByContent, 'Question Bank', new Date().toISOString()));
+}
+
+async function deleteTest(testId: string): Promise<void> {
+    const owner = requireUsername();
+    const db = await getDatabase();
+    await runTransaction(db, ['tests'], 'readwrite', tx => { tx.objectStore('tests').delete([owner, testId]); });
+}
+
+// Attempts (scoped to the logged-in user, newest first)
+async function getAttempts(): Promise<TestAttempt[]> {
+    const records = await getAllForOwner<RawRecord>('attempts');
+    const attempts = records.map(record => migrateAttempt(record));
+    // Attempts saved with an older schema are written back upgraded
+    const stale = attempts.filter((_, i) => !isCurrentSchema(records[i]));
+    if (stale.length > 0) await saveAttempts(stale);
+    return attempts.sort(byNewest(a => a.completedAt));
+}
+
+async function getAttempt(attemptId: string): Promise<TestAttempt | undefined> {
+    const owner = requireUsername();
+    const db = await getDatabase();
+    const record = await runTransaction<RawRecord | undefined>(db, ['attempts'], 'readonly', tx => tx.objectStore('attempts').get([owner, attemptId]));
+    return record ? migrateAttempt(record) : undefined;
+}
+
+async function saveAttempt(attempt: TestAttempt): Promise<void> {
+    await saveAttempts([attempt]);
+}
+
+async function saveAttempts(attempts: TestAttempt[]): Promise<void> {
+    await putForOwner('attempts', attempts.map(attempt => ({ ...attempt, schemaVersion: SCHEMA_VERSION })));
+}
+
+// Review cards (scoped to the logged-in user)
+async function getReviewCards(): Promise<ReviewCard[]> {
+    const records = await getAllForOwner<ReviewCard & { owner?: string }>('reviews');
+    return records.map(({ owner, ...card }) => card);
+}
+
+async function saveReviewCards(cards: ReviewCard[]): Promise<void> {
+    await putForOwner('reviews', cards);
+}
+
+// Settings (key/value records; use userKey() for per-user settings)
+async function getSetting<T>(key: string, defaultValue: T): Promise<T> {
+    const db = await getDatabase();
+    const record = await runTransaction<SettingRecord<T> | undefined>(db, ['settings'], 'readonly', tx => tx.objectStore('settings').get(key));
+    return record ? record.value : defaultValue;
+}
+
+async function saveSetting<T>(key: string, value: T): Promise<void> {
+    const db = await getDatabase();
+    await runTransaction(db, ['settings'], 'readwrite', tx => { tx.objectStore('settings').put({ key, value }); });
+}
+
+async function deleteSetting(key: string): Promise<void> {
+    const db = await getDatabase();
+    await runTransaction(db, ['settings'], 'readwrite', tx => { tx.objectStore('settings').delete(key); });
+}
+
+// Scopes a setting key to the logged-in user so accounts sharing a browser don't see each other's data
+function userKey(key: string): string {
+    return `${key}_${requireUsername()}`;
+}
+
+// Attempts saved before attempts had IDs get a deterministic one, so restoring the same data twice doesn't duplicate them
+function legacyAttemptId(attempt: Pick<TestAttempt, 'testId' | 'completedAt'>): string {
+    return `attempt_${new Date(attempt.completedAt).getTime()}_${attempt.testId}`;
+}
+
+function withAttemptId(attempt: TestAttempt): TestAttempt {
+    return attempt.id ? attempt : { ...attempt, id: legacyAttemptId(attempt) };
+}
+
+// Copies everything earlier versions kept in localStorage into IndexedDB, once, then frees the localStorage quota
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const migrated = await runTransaction<SettingRecord | undefined>(db, ['settings'], 'readonly', tx => tx.objectStore('settings').get('localStorageMigrated'));
+    if (migrated) return;
+
+    const users = getFromStorage<User[]>('registeredUsers', []);
+    const migratedKeys = ['registeredUsers', 'tests', 'performanceHistory'];
+    const tests: Test[] = [];
+    const attempts: TestAttempt[] = [];
+
+    users.forEach(user => {
+        const testsKey = `tests_${user.username}`;
+        const historyKey = `performanceHistory_${user.username}`;
+        getFromStorage<Test[]>(testsKey, []).forEach(test => tests.push({ ...test, owner: user.username }));
+        getFromStorage<TestAttempt[]>(historyKey, []).forEach(attempt => attempts.push({ ...withAttemptId(attempt), owner: user.username }));
+        migratedKeys.push(testsKey, historyKey);
+    });
+
+    // Data from before accounts were separated stays unclaimed until a user accepts it in migrateLegacyData()
+    const legacyTests = getFromStorage<Test[]>('tests', []);
+    const legacyHistory = getFromStorage<TestAttempt[]>('performanceHistory', []).map(withAttemptId);
+
+    await runTransaction(db, ['users', 'tests', 'attempts', 'settings'], 'readwrite', tx => {
+        users.forEach(user => tx.objectStore('users').put(user));
+        tests.forEach(test => tx.objectStore('tests').put(test));
+        attempts.forEach(attempt => tx.objectStore('attempts').put(attempt));
+        if (legacyTests.length > 0) tx.objectStore('settings').put({ key: 'legacyTests', value: legacyTests });
+        if (legacyHistory.length > 0) tx.objectStore('settings').put({ key: 'legacyHistory', value: legacyHistory });
+        tx.objectStore('settings').put({ key: 'localStorageMigrated', value: new Date().toISOString() });
+    });
+
+    migratedKeys.forEach(key => localStorage.removeItem(key));
+}
+
+// Data saved before per-user storage has no owner. On login, offer to move it into the account.
+async function migrateLegacyData(user: User): Promise<void> {
+    const legacyTests = await getSetting<RawRecord[]>('legacyTests', []);
+    const legacyHistory = await getSetting<RawRecord[]>('legacyHistory', []);
+    if (legacyTests.length === 0 && legacyHistory.length === 0) return;
+
+    const message = `Found data saved before accounts were separated (${legacyTests.length} tests, ${legacyHistory.length} attempts).\n\n` +
+        `Move it into ${user.name}'s account (@${user.username})?\n\n` +
+        `Press Cancel to leave it for another account to claim on their next login.`;
+    if (!confirm(message)) return;
+
+    const existingIds = new Set((await getTests()).map(t => t.id));
+    await saveTests(legacyTests.map(t => migrateTest(t)).filter(t => !existingIds.has(t.id)));
+    await saveAttempts(legacyHistory.map(a => migrateAttempt(a)));
+    await deleteSetting('legacyTests');
+    await deleteSetting('legacyHistory');
+}
+
+// Shown whenever a write fails, so the user knows their data was not saved
+function reportStorageError(action: string, error: Error): void {
+    console.error(`Storage error while trying to ${action}:`, error);
+    alert(`Could not ${action}. ${error.message}`);
+}
+
+function downloadJSON(data: unknown, fileName: string): void {
+    const jsonString = JSON.stringify(data, null, 2); // Pretty print JSON
+    downloadBlob(new Blob([jsonString], { type: "application/json" }), fileName);
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
+
+// --- Data Restore Logic ---
+// Restoring a backup shows a preview first. Each test and attempt in the file is new, identical to what's stored,
+// or in conflict with it; conflicts keep the local copy unless the user picks the backup's or both.
+type RestoreChoice = 'mine' | 'theirs' | 'both';
+type RestoreStatus = 'new' | 'identical' | 'conflict';
+
+interface RestoreItem<T> {
+    key: string;
+    status: RestoreStatus;
+    incoming: T;
+    local?: T; // the stored record it matched, for conflicts and identical items
+    choice: RestoreChoice; // for new items, 'mine' means skip it
+}
+
+interface RestorePlan {
+    source: string; // file name
+    tests: RestoreItem<Test>[];
+    attempts: RestoreItem<TestAttempt>[];
+    images: unknown;
+}
+
+let pendingRestore: RestorePlan | null = null;
+
+const RESTORE_STATUS_LABELS: Record<RestoreStatus, string> = { new: 'New', identical: 'Identical', conflict: 'Conflict' };
+
+// JSON with sorted keys, so records that differ only in key order compare equal
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const record = value as RawRecord;
+        return `{${Object.keys(record).sort().filter(key => record[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+// Content only: question bank IDs, dates and sources are bookkeeping that differs between devices
+function testSignature(test: Test): string {
+    const { id, createdAt, owner, schemaVersion, questions, ...content } = test;
+    return stableStringify({ ...content, questions: questions.map(({ id, createdAt, source, ...question }) => question) });
+}
+
+function attemptSignature(attempt: TestAttempt): string {
+    return stableStringify([attempt.testId, attempt.completedAt, attempt.userAnswers, attempt.score, attempt.timeTaken]);
+}
+
+// The same test finished at the same moment is the same attempt, even if two copies of it got different IDs
+function attemptIdentity(attempt: TestAttempt): string {
+    return `${attempt.testId}|${new Date(attempt.completedAt).getTime()}`;
+}
+
+// Copies kept with "keep both" get a deterministic ID, so restoring the same file again finds them instead of copying again
+function restoredCopyId(id: string): string {
+    return `${id}_restored`;
+}
+
+function restoredTestCopy(test: Test): Test {
+    // Without IDs, saveTests() only reuses a bank question that is identical in full; any question the backup
+    // changed gets a new ID, so the local test's questions are never overwritten
+    return { ...test, id: restoredCopyId(test.id), name: `${test.name} (Restored)`, questions: withoutQuestionIds(test.questions) };
+}
+
+function restoredAttemptCopy(attempt: TestAttempt): TestAttempt {
+    return { ...attempt, id: restoredCopyId(attempt.id) };
+}
+
+// Matches incoming records to stored ones by ID, then by identity. Repeats within the file are dropped.
+function planRestoreItems<T extends { id: string }>(
+    incoming: T[],
+    local: T[],
+    signature: (record: T) => string,
+    copyOf: (record: T) => T,
+    identity: (record: T) => string = record => record.id
+): RestoreItem<T>[] {
+    const byId = new Map(local.map(record => [record.id, record]));
+    const byIdentity = new Map(local.map(record => [identity(record), record]));
+    const seen = new Set<string>();
+    const items: RestoreItem<T>[] = [];
+
+    incoming.forEach(record => {
+        if (seen.has(record.id) || seen.has(identity(record))) return;
+        seen.add(record.id);
+        seen.add(identity(record));
+
+        const match = byId.get(record.id) ?? byIdentity.get(identity(record));
+        const copy = byId.get(restoredCopyId(record.id));
+        const identical = (match && signature(match) === signature(record)) || (copy && signature(copy) === signature(copyOf(record)));
+        const status: RestoreStatus = identical ? 'identical' : match ? 'conflict' : 'new';
+        items.push({ key: record.id, status, incoming: record, local: match, choice: status === 'new' ? 'theirs' : 'mine' });
+    });
+    return items;
+}
+
+async function planRestore(data: RawRecord, version: number, source: string): Promise<RestorePlan> {
+    const incomingTests: Test[] = Array.isArray(data.tests) ? data.tests.map((t: RawRecord) => migrateTest(t, schemaVersionOf(t, version))) : [];
+    const incomingHistory: TestAttempt[] = Array.isArray(data.performanceHistory) ? data.performanceHistory.map((a: RawRecord) => migrateAttempt(a, schemaVersionOf(a, version))) : [];
+    const [tests, attempts] = await Promise.all([getTests(), getAttempts()]);
+    return {
+        source,
+        tests: planRestoreItems(incomingTests, tests, testSignature, restoredTestCopy),
+        attempts: planRestoreItems(incomingHistory, attempts, attemptSignature, restoredAttemptCopy, attemptIdentity),
+        images: data.images
+    };
+}
+
+// What a choice writes: nothing for "mine", the backup's record over the matched one for "theirs", a copy for "both"
+function restoredRecords<T extends { id: string }>(item: RestoreItem<T>, copyOf: (record: T) => T): T[] {
+    if (item.status === 'identical' || item.choice === 'mine') return [];
+    if (item.choice === 'both' && item.local) return [copyOf(item.incoming)];
+    return [item.local ? { ...item.incoming, id: item.local.id } : item.incoming];
+}
+
+async function applyRestorePlan(plan: RestorePlan): Promise<void> {
+    await importImages(plan.images);
+    await saveTests(plan.tests.flatMap(item => restoredRecords(item, restoredTestCopy)));
+    await saveAttempts(plan.attempts.flatMap(item => restoredRecords(item, restoredAttemptCopy)));
+    await refreshDifficultyEstimates();
+}
+
+function countRestoreWrites(plan: RestorePlan): number {
+    return [...plan.tests, ...plan.attempts].filter(item => item.status !== 'identical' && item.choice !== 'mine').length;
+}
+
+function describeRestoreCounts(items: RestoreItem<unknown>[], noun: string): string {
+    const count = (status: RestoreStatus) => items.filter(item => item.status === status).length;
+    return `${items.length} ${noun}${items.length === 1 ? '' : 's'} (${count('new')} new, ${count('identical')} identical, ${count('conflict')} conflicting)`;
+}
+
+function describeRestoredTest(test?: Test): string {
+    return test ? `${test.questions.length} questions, created ${new Date(test.createdAt).toLocaleDateString()}` : '—';
+}
+
+function describeRestoredAttempt(attempt?: TestAttempt): string {
+    return attempt ? `${attempt.score.toFixed(1)}% (${attempt.correctAnswers}/${attempt.totalQuestions} correct), ${Math.round(attempt.timeTaken / 60)} min` : '—';
+}
+
+function renderRestoreChoice(item: RestoreItem<unknown>, kind: 'tests' | 'attempts', index: number): SafeHTML {
+    if (item.status === 'identical') return html`<span class="settings-hint">Already stored</span>`;
+    const options: [RestoreChoice, string][] = item.status === 'new'
+        ? [['theirs', 'Add'], ['mine', 'Skip']]
+        : [['mine', 'Keep mine'], ['theirs', 'Keep backup'], ['both', 'Keep both']];
+    return html`
+        <select data-restore-kind="${kind}" data-restore-index="${index}" aria-label="What to keep">
+            ${options.map(([value, label]) => html`<option value="${value}" ${item.choice === value ? 'selected' : ''}>${label}</option>`)}
+        </select>
+    `;
+}
+
+function renderRestoreTable<T>(title: string, kind: 'tests' | 'attempts', items: RestoreItem<T>[], label: (record: T) => string, describe: (record?: T) => string): SafeHTML | string {
+    if (items.length === 0) return '';
+    return html`
+        <h4>${title}</h4>
+        <table class="import-preview-table restore-preview-table">
+            <thead><tr><th>Item</th><th>Status</th><th>Mine</th><th>Backup</th><th>Keep</th></tr></thead>
+            <tbody>
+                ${items.map((item, index) => html`
+                    <tr class="restore-${item.status}">
+                        <td>${label(item.incoming)}</td>
+                        <td>${RESTORE_STATUS_LABELS[item.status]}</td>
+                        <td>${describe(item.local)}</td>
+                        <td>${describe(item.incoming)}</td>
+                        <td>${renderRestoreChoice(item, kind, index)}</td>
+                    </tr>
+                `)}
+            </tbody>
+        </table>
+    `;
+}
+
+function renderRestorePreview() {
+    const plan = pendingRestore;
+    if (!plan) return;
+    const writes = countRestoreWrites(plan);
+    restorePreviewSummary.textContent = `${plan.source} contains ${describeRestoreCounts(plan.tests, 'test')} and ${describeRestoreCounts(plan.attempts, 'attempt')}. ` +
+        `Conflicts keep your copy unless you choose otherwise; nothing is saved until you press Restore.`;
+    setHTML(restorePreviewList, html`
+        ${renderRestoreTable('Tests', 'tests', plan.tests, test => test.name, describeRestoredTest)}
+        ${renderRestoreTable('Attempts', 'attempts', plan.attempts,
+            attempt => `${attempt.testName} — ${new Date(attempt.completedAt).toLocaleString()}`, describeRestoredAttempt)}
+    `);
+    applyRestoreBtn.disabled = writes === 0;
+    setHTML(applyRestoreBtn, html`<span class="material-symbols-outlined">settings_backup_restore</span> ${writes === 0 ? 'Nothing to restore' : `Restore ${writes} item${writes === 1 ? '' : 's'}`}`);
+}
+
+function closeRestorePreview() {
+    pendingRestore = null;
+    restorePreviewModal.classList.add('hidden');
+}
+
+restoreBackupBtn.addEventListener('click', () => restoreFileInput.click());
+
+restoreFileInput.addEventListener('change', (event) => {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+        try {
+            const text = e.target?.result as string;
+            let data;
+            try {
+                data = JSON.parse(text);
+            } catch (err) {
+                throw new Error("The selected file is not a valid JSON file.");
+            }
+
+            const version = fileSchemaVersion(data);
+
+            // Case 1: Full Backup (contains 'tests' or 'performanceHistory' arrays)
+            const isBackup = Array.isArray(data.tests) || Array.isArray(data.performanceHistory);
+            
+            // Case 2: Single Test Export (contains 'questions' array and 'name')
+            const isSingleTest = data.name && Array.isArray(data.questions);
+
+            if (isBackup) {
+                pendingRestore = await planRestore(data, version, file.name);
+                renderRestorePreview();
+                restorePreviewModal.classList.remove('hidden');
+            } 
+            else if (isSingleTest) {
+                if (confirm(`This file appears to be a single test: "${data.name}". Would you like to import it?`)) {
+                     const { images, ...testData } = data;
+                     const migrated = migrateTest(testData, version);
+                     const newTest: Test = {
+                        ...migrated,
+                        questions: withoutQuestionIds(migrated.questions),
+                        id: `test_${Date.now()}_restored`, // Ensure unique ID to prevent conflicts
+                        name: `${data.name} (Restored)`
+                    };
+
+                    await importImages(images);
+                    await saveTest(newTest);
+
+                    alert(`Test "${data.name}" imported successfully!`);
+                    if (!allTestsView.classList.contains('hidden')) renderAllTests();
+                }
+            } 
+            else {
+                throw new Error("Invalid file format. Please upload a valid Backup JSON or a single Test JSON.");
+            }
+
+        } catch (error) {
+            console.error("Error restoring data:", error);
+            alert(`Failed to restore data. ${error.message}`);
+        } finally {
+            input.value = ''; // Reset input
+        }
+    };
+    reader.readAsText(file);
+});
+
+restorePreviewList.addEventListener('change', e => {
+    const select = e.target as HTMLSelectElement;
+    const items = select.dataset.restoreKind === 'tests' ? pendingRestore?.tests : pendingRestore?.attempts;
+    const item = items?.[Number(select.dataset.restoreIndex)];
+    if (!item) return;
+    item.choice = select.value as RestoreChoice;
+    renderRestorePreview();
+});
+
+// The bulk buttons only change conflicts; new items stay added unless skipped one by one
+restorePreviewModal.querySelectorAll<HTMLButtonElement>('[data-restore-choice]').forEach(button => {
+    button.addEventListener('click', () => {
+        if (!pendingRestore) return;
+        const choice = button.dataset.restoreChoice as RestoreChoice;
+        [...pendingRestore.tests, ...pendingRestore.attempts].filter(item => item.status === 'conflict').forEach(item => { item.choice = choice; });
+        renderRestorePreview();
+    });
+});
+
+applyRestoreBtn.addEventListener('click', async () => {
+    if (!pendingRestore) return;
+    applyRestoreBtn.disabled = true;
+    try {
+        await applyRestorePlan(pendingRestore);
+        closeRestorePreview();
+        showToast("Data restored successfully", "success");
+        // Reload current view if necessary
+        if (!allTestsView.classList.contains('hidden')) renderAllTests();
+        if (!performanceView.classList.contains('hidden')) renderPerformanceHistory();
+        if (!analyticsView.classList.contains('hidden')) renderAnalyticsDashboard();
+    } catch (error) {
+        reportStorageError('restore the backup', error);
+        applyRestoreBtn.disabled = false;
+    }
+});
+
+closeRestorePreviewBtn.addEventListener('click', closeRestorePreview);
+restorePreviewModal.addEventListener('click', e => {
+    if (e.target === restorePreviewModal) closeRestorePreview();
+});
+
+
+// --- View Management ---
+const views = [mainView, createTestView, editTestView, allTestsView, testDetailView, testAttemptView, performanceView, performanceReportView, analyticsView, settingsView, questionBankView, itemAnalysisView];
+
+function showView(viewToShow) {
+    views.forEach(view => {
+        if (view === viewToShow) {
+            view.classList.remove('hidden');
+        } else {
+            view.classList.add('hidden');
+        }
+    });
+    window.scrollTo(0, 0);
+}
+
+// --- Event Listeners for navigation ---
+createTestCard.addEventListener('click', () => showView(createTestView));
+allTestsCard.addEventListener('click', () => {
+    renderAllTests();
+    showView(allTestsView);
+});
+performanceCard.addEventListener('click', () => {
+    renderPerformanceHistory();
+    showView(performanceView);
+});
+analyticsCard.addEventListener('click', () => {
+    renderAnalyticsDashboard();
+    showView(analyticsView);
+});
+questionBankCard.addEventListener('click', () => {
+    renderQuestionBank();
+    showView(questionBankView);
+});
+
+backToHomeFromCreateBtn.addEventListener('click', () => showView(mainView));
 backToHomeFromAllTestsBtn.addEventListener('click', () => showView(mainView));
 backToHomeFromPerformanceBtn.addEventListener('click', () => showView(mainView));
 backToHomeFromAnalyticsBtn.addEventListener('click', () => showView(mainView));
+backToHomeFromSettingsBtn.addEventListener('click', () => showView(mainView));
+backToHomeFromBankBtn.addEventListener('click', () => showView(mainView));
 backToCreateBtn.addEventListener('click', () => showView(createTestView));
 backToAllTestsFromDetailBtn.addEventListener('click', () => showView(allTestsView));
+backToDetailFromItemAnalysisBtn.addEventListener('click', () => showView(testDetailView));
+
+backToPerformanceListBtn.addEventListener('click', () => {
+    if (reportReturnView === performanceView) renderPerformanceHistory();
+    else if (reportReturnView === allTestsView) renderAllTests();
+    showView(reportReturnView);
+});
+
+closeModalBtn.addEventListener('click', () => {
+    analyticsModal.classList.add('hidden');
+});
+
+// Close modal when clicking outside
+analyticsModal.addEventListener('click', (e) => {
+    if (e.target === analyticsModal) {
+        analyticsModal.classList.add('hidden');
+    }
+});
+
+// Sidebar toggle for mobile test attempt view
+toggleSidebarBtn?.addEventListener('click', () => {
+    testSidebar?.classList.toggle('collapsed');
+});
+
+// --- GLOBAL DELEGATED EVENT LISTENERS ---
+document.addEventListener('click', async (e) => {
+    const target = e.target as HTMLElement;
+
+    // Test Attempt View Controls
+    if (!testAttemptView.classList.contains('hidden')) {
+        if (target.closest('#submit-test-btn')) {
+            e.preventDefault();
+            handleSubmitClick();
+        } else if (target.closest('#back-to-all-tests')) {
+            e.preventDefault();
+            const timerWasRunning = timerInterval !== null;
+            if (timerWasRunning) stopTimer();
+            if (confirm("Are you sure you want to abandon this test? Your progress will be lost.")) {
+                currentTest = null;
+                clearAttemptCheckpoint();
+                showView(allTestsView);
+            } else {
+                if (timerWasRunning) startTimer();
+            }
+        }
+        return;
+    }
+    
+    // Deeper Analysis Button in Performance Report
+    if (target.matches('.deeper-analysis-btn')) {
+        await handleDeeperAnalysis(target);
+    }
+});
+
+
+// --- KEYBOARD SHORTCUTS FOR TEST ATTEMPT ---
+document.addEventListener('keydown', (e) => {
+    if (testAttemptView.classList.contains('hidden')) {
+        return;
+    }
+
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
+        return;
+    }
+
+    switch (e.key) {
+        case '1':
+        case '2':
+        case '3':
+        case '4':
+            e.preventDefault();
+            const optionIndex = parseInt(e.key, 10) - 1;
+            const optionInputs = document.querySelectorAll('.attempt-option-item input[name="option"]') as NodeListOf<HTMLInputElement>;
+            const optionInput = optionInputs[optionIndex];
+            if (optionInput) {
+                // Checkboxes of multiple-correct questions toggle; radio buttons just select
+                optionInput.checked = optionInput.type === 'checkbox' ? !optionInput.checked : true;
+                recordAnswerChange();
+            }
+            break;
+
+        case ' ': // Spacebar for Save & Next
+            e.preventDefault();
+            saveNextBtn.click();
+            break;
+            
+        case 'ArrowRight':
+            e.preventDefault();
+            saveNextBtn.click();
+            break;
+            
+        case 'ArrowLeft':
+            e.preventDefault();
+            prevBtn.click();
+            break;
+
+        case 'm':
+        case 'M':
+            e.preventDefault();
+            markReviewBtn.click();
+            break;
+            
+        case 'c':
+        case 'C':
+            e.preventDefault();
+            clearResponseBtn.click();
+            break;
+    }
+});
+
+
+// --- Exam Presets ---
+// Named exam patterns that fill in the marking fields. The qualifying line is stored on the test so reports
+// and history judge each attempt against its own exam rather than a fixed pass mark.
+interface ExamPreset {
+    id: string;
+    label: string;
+    questionCount: number;
+    duration: number; // in minutes
+    marksPerQuestion: number;
+    negativeMarking: number; // marks deducted per wrong answer
+    qualifyingPercent: number;
+    description: string;
+}
+
+const DEFAULT_QUALIFYING_PERCENT = 50;
+
+const EXAM_PRESETS: ExamPreset[] = [
+    {
+        id: 'upsc-gs1', label: 'UPSC Prelims – GS Paper I', questionCount: 100, duration: 120, marksPerQuestion: 2, negativeMarking: 0.66, qualifyingPercent: 45,
+        description: '100 questions, 200 marks, 1/3 negative marking. Ranked by merit; the 45% line is an indicative cut-off.'
+    },
+    {
+        id: 'upsc-csat', label: 'UPSC Prelims – CSAT Paper II', questionCount: 80, duration: 120, marksPerQuestion: 2.5, negativeMarking: 0.83, qualifyingPercent: 33,
+        description: '80 questions, 200 marks, 1/3 negative marking. Qualifying paper: 33% (66 marks) is needed.'
+    },
+    {
+        id: 'uppsc-gs1', label: 'UPPSC Prelims – GS Paper I', questionCount: 150, duration: 120, marksPerQuestion: 1.33, negativeMarking: 0.44, qualifyingPercent: 45,
+        description: '150 questions, 200 marks, 1/3 negative marking. The 45% line is an indicative cut-off.'
+    },
+    {
+        id: 'uppsc-csat', label: 'UPPSC Prelims – CSAT Paper II', questionCount: 100, duration: 120, marksPerQuestion: 2, negativeMarking: 0.66, qualifyingPercent: 33,
+        description: '100 questions, 200 marks, 1/3 negative marking. Qualifying paper: 33% is needed.'
+    },
+    {
+        id: 'bpsc-prelims', label: 'BPSC Prelims – General Studies', questionCount: 150, duration: 120, marksPerQuestion: 1, negativeMarking: 0.33, qualifyingPercent: 40,
+        description: '150 questions, 150 marks, 1/3 negative marking. 40% is the general-category qualifying mark.'
+    }
+];
+
+function qualifyingPercentFor(test: Test): number {
+    return test.qualifyingPercent ?? DEFAULT_QUALIFYING_PERCENT;
+}
+
+function hasQualified(attempt: TestAttempt): boolean {
+    return attempt.score >= qualifyingPercentFor(attempt.fullTest);
+}
+
+// Marking fields for a new test, read from the Create Test form
+function readMarkingConfig(): Pick<Test, 'marksPerQuestion' | 'negativeMarking' | 'qualifyingPercent' | 'presetId'> {
+    const qualifying = parseFloat(qualifyingInput.value);
+    return {
+        marksPerQuestion: parseFloat(marksInput.value) || 1,
+        negativeMarking: parseFloat(negativeInput.value) || 0,
+        qualifyingPercent: Number.isFinite(qualifying) ? Math.min(100, Math.max(0, qualifying)) : DEFAULT_QUALIFYING_PERCENT,
+        presetId: examPresetSelect.value || undefined
+    };
+}
+
+function applyExamPreset(preset: ExamPreset | undefined) {
+    examPresetDescription.textContent = preset ? preset.description : 'Set the marking scheme yourself.';
+    if (!preset) return;
+    questionsSlider.value = String(preset.questionCount);
+    questionsCount.textContent = questionsSlider.value;
+    durationInput.value = String(preset.duration);
+    marksInput.value = String(preset.marksPerQuestion);
+    negativeInput.value = String(preset.negativeMarking);
+    qualifyingInput.value = String(preset.qualifyingPercent);
+}
+
+setHTML(examPresetSelect, html`<option value="">Custom</option>${EXAM_PRESETS.map(p => html`<option value="${p.id}">${p.label}</option>`)}`);
+examPresetSelect.addEventListener('change', () => applyExamPreset(EXAM_PRESETS.find(p => p.id === examPresetSelect.value)));
+
+// Changing a marking field by hand means the test no longer follows the preset
+[questionsSlider, durationInput, marksInput, negativeInput, qualifyingInput].forEach(input => {
+    input.addEventListener('input', () => {
+        if (examPresetSelect.value) {
+            examPresetSelect.value = '';
+            applyExamPreset(undefined);
+        }
+    });
+});
+
+
+// --- Create Test Logic ---
+tabs.forEach(tab => {
+    tab.addEventListener('click', () => {
+        tabs.forEach(t => {
+            t.classList.remove('active');
+            t.setAttribute('aria-selected', 'false');
+        });
+        tab.classList.add('active');
+        tab.setAttribute('aria-selected', 'true');
+        
+        const tabName = tab.getAttribute('data-tab');
+        activeTabInput.type = tabName;
+
+        tabPanes.forEach(pane => {
+            if (pane.id === `${tabName}-content`) {
+                pane.classList.add('active');
+            } else {
+                pane.classList.remove('active');
+            }
+        });
+    });
+});
+
+questionsSlider.addEventListener('input', () => {
+    questionsCount.textContent = questionsSlider.value;
+});
+
+// Clear text button functionality
+document.querySelectorAll('.clear-text-btn').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+        const targetId = (e.currentTarget as HTMLElement).getAttribute('data-target');
+        if (targetId) {
+            const targetElement = document.getElementById(targetId) as HTMLTextAreaElement;
+            if (targetElement && confirm('Are you sure you want to clear this text?')) {
+                targetElement.value = '';
+                targetElement.focus();
+            }
+        }
+    });
+});
+
+generateTestBtn.addEventListener('click', handleGenerateTest);
+
+async function handleGenerateTest() {
+    loader.classList.remove('hidden');
+    generateTestBtn.disabled = true;
+
+    let source = "Custom Input";
+    let contentsForApi;
+    let sourceChunks: SourceChunk[] | null = null; // set for text sources, which may be too long for one prompt
+    let presetQuestions: Question[] | null = null; // set when questions are parsed locally instead of generated
+    let pageCanvases: HTMLCanvasElement[] | null = null; // rendered PDF pages, for cropping the figures questions point at
+
+    const numQuestions = parseInt(questionsSlider.value, 10);
+    const language = languageSelect.value;
+    const mix = selectedDifficultyMix(difficultyMixSelect);
+    const testName = testNameInput.value.trim();
+
+    try {
+        switch (activeTabInput.type) {
+            case 'topic':
+                const topic = topicInput.value.trim();
+                if (!topic) throw new Error('Please enter a topic.');
+                source = topic;
+                const promptTopic = `Generate ${numQuestions} UPSC-style multiple-choice questions (4 options) based on the following topic: ${topic}. The questions should be in ${language}. For each question, provide the question, four options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic. ${difficultyGuidance(mix, numQuestions)} ${QUESTION_TYPE_GUIDANCE}`;
+                contentsForApi = promptTopic;
+                break;
+            case 'text':
+                const text = textInput.value.trim();
+                if (!text) throw new Error('Please paste some text.');
+                source = "Pasted Text";
+                sourceChunks = chunkTextByHeadings(text);
+                break;
+            case 'manual':
+                const manualText = manualInput.value.trim();
+                if (!manualText) throw new Error('Please paste your questions in the text area.');
+                source = "Bulk Import";
+                presetQuestions = await importBulkQuestions(manualText, language);
+                break;
+            case 'import':
+                if (!fileImport) throw new Error('Please choose a CSV, XLSX, Aiken or GIFT file to import.');
+                presetQuestions = importedQuestions();
+                if (presetQuestions.length === 0) throw new Error('None of the rows in the file could be imported. Check the preview for the reasons.');
+                source = fileImport.source;
+                break;
+            case 'file':
+                const file = fileUpload.files[0];
+                if (!file) throw new Error('Please select a file to upload.');
+                source = file.name;
+
+                if (file.type === "text/plain" || file.name.toLowerCase().endsWith('.txt')) {
+                    const fileText = await file.text();
+                    if (!fileText.trim()) throw new Error('The uploaded file is empty.');
+                    sourceChunks = chunkTextByHeadings(fileText);
+                } else if (file.type === "application/pdf" || file.name.toLowerCase().endsWith('.pdf')) {
+                    const arrayBuffer = await file.arrayBuffer();
+                    const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
+                    const pageTexts: string[] = [];
+                    for (let i = 1; i <= pdf.numPages; i++) {
+                        const page = await pdf.getPage(i);
+                        const textContent = await page.getTextContent();
+                        const pageText = textContent.items.map(item => ('str' in item ? item.str : '')).join(' ');
+                        pageTexts.push(pageText);
+                    }
+                    const fullText = pageTexts.join('\n\n');
+
+                    const MINIMUM_TEXT_LENGTH = 100;
+
+                    if (fullText.trim().length > MINIMUM_TEXT_LENGTH) {
+                        sourceChunks = chunkPages(pageTexts);
+                    } else {
+                        (loader.querySelector('p') as HTMLElement).textContent = 'Minimal text found. Attempting OCR on PDF pages for better results...';
+                        
+                        const textPart = { text: `Generate ${numQuestions} UPSC-style multiple-choice questions (4 options) based on the content in the following images. The questions should be in ${language}. For each question, provide the question, four options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic. ${difficultyGuidance(mix, numQuestions)} ${QUESTION_TYPE_GUIDANCE} If a question depends on a map, chart, diagram or table in the images, set "figure" to where it is so it can be shown with the question.` };
+                        const imageParts = [];
+                        pageCanvases = [];
+
+                        for (let i = 1; i <= pdf.numPages; i++) {
+                            const page = await pdf.getPage(i);
+                            const viewport = page.getViewport({ scale: 1.5 });
+                            const canvas = document.createElement('canvas');
+                            const context = canvas.getContext('2d');
+                            canvas.height = viewport.height;
+                            canvas.width = viewport.width;
+
+                            await page.render({ canvasContext: context, viewport: viewport, canvas: canvas } as any).promise;
+                            
+                            const base64Image = canvas.toDataURL('image/jpeg').split(',')[1];
+                            imageParts.push({ inlineData: { mimeType: 'image/jpeg', data: base64Image } });
+                            pageCanvases.push(canvas);
+                        }
+                        if (imageParts.length === 0) throw new Error('Could not extract any images from the PDF.');
+
+                        contentsForApi = { parts: [textPart, ...imageParts] };
+                    }
+                } else {
+                    throw new Error(`Unsupported file type: '${file.type || 'unknown'}'. Please upload a PDF or TXT file.`);
+                }
+                break;
+        }
+
+        let parsedResponse: Question[];
+        if (presetQuestions) {
+            parsedResponse = presetQuestions;
+        } else if (sourceChunks) {
+            parsedResponse = await generateQuestionsFromText(sourceChunks, numQuestions, language, source, mix);
+        } else {
+            const { provider, model } = await getAIProvider();
+            parsedResponse = await provider.generateQuestions({
+                contents: contentsForApi,
+                count: numQuestions,
+                language,
+                source
+            }, model);
+        }
+
+        if (!Array.isArray(parsedResponse) || parsedResponse.length === 0) {
+            throw new Error("Invalid response format from AI. The generated content was not a valid list of questions.");
+        }
+        if (pageCanvases) parsedResponse = await attachPageFigures(parsedResponse, pageCanvases);
+
+        const { questions: validated, report: validationReport } = validateQuestions(parsedResponse);
+        if (validated.length === 0) {
+            throw new Error(`None of the ${parsedResponse.length} generated questions passed validation${describeValidationIssues(validationReport.rejected)}.`);
+        }
+        // When the AI returns more questions than asked for, the extras are dropped by the difficulty mix;
+        // questions parsed from the user's own text or file are all kept
+        const validQuestions = presetQuestions || !mix.weights ? validated : pickByDifficulty(validated, numQuestions, mix);
+
+        currentTest = {
+            id: `test_${Date.now()}`,
+            name: testName || `Test on ${source}`,
+            questions: validQuestions.map(q => ({ ...q, source })),
+            duration: parseInt(durationInput.value, 10),
+            language: language,
+            createdAt: new Date().toISOString(),
+            ...readMarkingConfig()
+        };
+
+        renderEditableTest(currentTest);
+        renderValidationSummary(validationReport);
+        showView(editTestView);
+    } catch (error) {
+        console.error("Error generating test:", error);
+        alert(`Failed to generate test. ${error.message}`);
+    } finally {
+        (loader.querySelector('p') as HTMLElement).textContent = 'Generating your test, please wait...';
+        loader.classList.add('hidden');
+        generateTestBtn.disabled = false;
+    }
+}
+
+
+// --- Chunked Generation for Long Sources ---
+// Long PDFs and text files are split into chunks (by page or heading), the requested question count is spread
+// across them, and chunk requests run with bounded concurrency before being merged into one list.
+interface SourceChunk {
+    label: string; // e.g. "pages 12–18" or a chapter heading
+    text: string;
+}
+
+const CHUNK_TARGET_CHARS = 20000;
+const GENERATION_CONCURRENCY = 3;
+const HEADING_PATTERNS = [
+    /^\s*#{1,3}\s+\S/, // Markdown heading
+    /^\s*(?:chapter|unit|part|section|lesson|अध्याय|इकाई)\s+[\dIVXLC]+\b/i, // "Chapter 4", "Unit IV"
+    /^\s*[A-Z][A-Z0-9 ,:&'()-]{3,60}\s*$/, // short ALL-CAPS line
+];
+
+function buildTextPrompt(numQuestions: number, language: string, text: string, mix: DifficultyMix): string {
+    return `Generate ${numQuestions} UPSC-style multiple-choice questions (4 options) based on the following text. The questions should be in ${language}. For each question, provide the question, four options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic. ${difficultyGuidance(mix, numQuestions)} ${QUESTION_TYPE_GUIDANCE}\n\nText: """${text}"""`;
+}
+
+// Groups consecutive PDF pages into chunks of roughly CHUNK_TARGET_CHARS
+function chunkPages(pages: string[]): SourceChunk[] {
+    const chunks: SourceChunk[] = [];
+    let startPage = 1;
+    let buffer = '';
+
+    pages.forEach((pageText, i) => {
+        if (buffer && buffer.length + pageText.length > CHUNK_TARGET_CHARS) {
+            chunks.push({ label: startPage === i ? `page ${startPage}` : `pages ${startPage}–${i}`, text: buffer });
+            startPage = i + 1;
+            buffer = '';
+        }
+        buffer += pageText + '\n\n';
+    });
+    if (buffer.trim()) {
+        chunks.push({ label: startPage === pages.length ? `page ${startPage}` : `pages ${startPage}–${pages.length}`, text: buffer });
+    }
+    return chunks;
+}
+
+// Splits plain text at heading-like lines, then merges small sections and splits oversized ones by paragraph
+function chunkTextByHeadings(text: string): SourceChunk[] {
+    const sections: SourceChunk[] = [];
+    let current: SourceChunk = { label: 'beginning', text: '' };
+
+    text.split('\n').forEach(line => {
+        if (HEADING_PATTERNS.some(p => p.test(line))) {
+            const label = line.trim().replace(/^#+\s*/, '').slice(0, 60);
+            if (current.text.trim()) {
+                sections.push(current);
+                current = { label, text: '' };
+            } else {
+                current.label = label;
+            }
+        }
+        current.text += line + '\n';
+    });
+    if (current.text.trim()) sections.push(current);
+
+    const chunks: SourceChunk[] = [];
+    sections.forEach(section => {
+        const last = chunks[chunks.length - 1];
+        if (last && last.text.length + section.text.length <= CHUNK_TARGET_CHARS) {
+            last.text += section.text;
+            return;
+        }
+        if (section.text.length <= CHUNK_TARGET_CHARS) {
+            chunks.push({ ...section });
+            return;
+        }
+        let part = 1;
+        let buffer = '';
+        section.text.split(/\n\s*\n/).forEach(paragraph => {
+            if (buffer && buffer.length + paragraph.length > CHUNK_TARGET_CHARS) {
+                chunks.push({ label: `${section.label} (part ${part++})`, text: buffer });
+                buffer = '';
+            }
+            buffer += paragraph + '\n\n';
+        });
+        if (buffer.trim()) chunks.push({ label: part > 1 ? `${section.label} (part ${part})` : section.label, text: buffer });
+    });
+    return chunks;
+}
+
+// Spreads `total` questions across chunks in proportion to their length. With fewer questions than chunks,
+// evenly spaced chunks get one each so the test still covers the whole source rather than the first chapters.
+function allocateQuestions(chunks: SourceChunk[], total: number): number[] {
+    const counts = chunks.map(() => 0);
+    if (total < chunks.length) {
+        for (let i = 0; i < total; i++) {
+            counts[Math.floor((i + 0.5) * chunks.length / total)] = 1;
+        }
+        return counts;
+    }
+
+    return allocateByWeight(chunks.map(c => c.text.length), total);
+}
+
+// Splits `total` in proportion to `weights` (largest remainder), giving every entry at least one.
+// Expects total >= weights.length.
+function allocateByWeight(weights: number[], total: number): number[] {
+    const counts = weights.map(() => 0);
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const shares = weights.map(w => (w / totalWeight) * total);
+    shares.forEach((share, i) => counts[i] = Math.max(1, Math.floor(share)));
+
+    // Hand out (or take back) the remainder by largest fractional share
+    const byRemainder = shares.map((share, i) => ({ i, rest: share - Math.floor(share) })).sort((a, b) => b.rest - a.rest);
+    let assigned = counts.reduce((a, b) => a + b, 0);
+    for (let k = 0; assigned < total; k = (k + 1) % byRemainder.length, assigned++) {
+        counts[byRemainder[k].i]++;
+    }
+    for (let k = byRemainder.length - 1; assigned > total; k = (k - 1 + byRemainder.length) % byRemainder.length) {
+        if (counts[byRemainder[k].i] > 1) {
+            counts[byRemainder[k].i]--;
+            assigned--;
+        }
+    }
+    return counts;
+}
+
+// Like Promise.all over `items`, but with at most `limit` calls in flight
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+function normalizeQuestionText(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function dedupeQuestions(questions: Question[]): Question[] {
+    const seen = new Set<string>();
+    return questions.filter(q => {
+        const key = normalizeQuestionText(q.question);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+// Generates questions from a text source, chunking it when it's too long for a single prompt
+async function generateQuestionsFromText(chunks: SourceChunk[], numQuestions: number, language: string, source: string, mix: DifficultyMix): Promise<Question[]> {
+    const { provider, model } = await getAIProvider();
+
+    if (chunks.length === 1) {
+        return provider.generateQuestions({ contents: buildTextPrompt(numQuestions, language, chunks[0].text, mix), count: numQuestions, language, source }, model);
+    }
+
+    const allocation = allocateQuestions(chunks, numQuestions);
+    const work = chunks
+        .map((chunk, i) => ({ chunk, count: allocation[i] }))
+        .filter(w => w.count > 0);
+    const loaderText = loader.querySelector('p') as HTMLElement;
+    let done = 0;
+    loaderText.textContent = `Generating questions from ${work.length} sections of ${source}...`;
+
+    const results = await mapWithConcurrency(work, GENERATION_CONCURRENCY, async ({ chunk, count }) => {
+        try {
+            const questions = await provider.generateQuestions({
+                contents: buildTextPrompt(count, language, chunk.text, mix),
+                count,
+                language,
+                source: `${source}, ${chunk.label}`
+            }, model);
+            return { questions: Array.isArray(questions) ? questions : [], error: null };
+        } catch (error) {
+            console.error(`Error generating questions for ${chunk.label}:`, error);
+            return { questions: [] as Question[], error: error as Error };
+        } finally {
+            loaderText.textContent = `Generating questions: ${++done} of ${work.length} sections done...`;
+        }
+    });
+
+    const failed = results.filter(r => r.error);
+    if (failed.length === results.length) {
+        throw failed[0].error;
+    }
+
+    const merged = results.flatMap(r => r.questions);
+    const unique = dedupeQuestions(merged);
+    if (failed.length > 0) {
+        showToast(`${failed.length} of ${results.length} sections failed to generate; the test uses the rest.`, "warning");
+    } else if (unique.length < merged.length) {
+        showToast(`Removed ${merged.length - unique.length} duplicate question(s) across sections.`, "info");
+    }
+    return unique;
+}
+
+
+// --- Bulk Import Parser ---
+// Pasted question sets are parsed locally so they import exactly as written; only blocks the parser can't
+// read are offered to the AI provider, and each problem is reported against its line in the pasted text.
+interface ParseLine {
+    no: number; // 1-based line number in the pasted text
+    text: string;
+}
+
+interface BulkParseError {
+    line: number;
+    message: string;
+}
+
+interface BulkParseResult {
+    questions: Question[];
+    errors: BulkParseError[];
+    unreadableBlocks: string[]; // raw text of blocks that failed, for the optional AI fallback
+}
+
+const QUESTION_START_PATTERN = /^\s*(?:(Q(?:uestion)?)\s*(?:\d+\s*[.):-]?|[.):-])|\d+\s*[.)])\s*/i;
+const ANSWER_PATTERN = /^\s*(?:correct\s+)?(?:answer|ans)\b\s*[.:)-]*\s*(.*)$/i;
+const EXPLANATION_PATTERN = /^\s*(?:explanation|exp|solution)\b\s*[.:)-]+\s*(.*)$/i;
+const TAG_LINE_PATTERN = /^\s*(?:subject|topic)\s*[:-]/i;
+const LETTER_OPTION_PATTERN = /(?:^|\s)\(?([a-fA-F])\)\s*|(?:^|\s)([a-fA-F])[.:]\s+/g;
+const NUMBER_OPTION_PATTERN = /(?:^|\s)\(?([1-6])\)\s*|(?:^|\s)([1-6])[.:]\s+/g;
+
+interface OptionMarker {
+    index: number; // 0 for A/1, 1 for B/2, ...
+    start: number;
+    end: number;
+}
+
+function findOptionMarkers(text: string, pattern: RegExp, toIndex: (label: string) => number): OptionMarker[] {
+    const markers: OptionMarker[] = [];
+    for (const match of text.matchAll(pattern)) {
+        markers.push({ index: toIndex(match[1] || match[2]), start: match.index, end: match.index + match[0].length });
+    }
+    return markers;
+}
+
+// Picks the last A/1 marker that is followed by a B/2 marker, then takes markers in sequence from there.
+// Earlier markers (numbered statements in the question stem) stay part of the question text.
+function splitOptions(text: string, markers: OptionMarker[]): { stem: string; options: string[] } | null {
+    let first = -1;
+    markers.forEach((m, i) => {
+        if (m.index === 0 && markers.slice(i + 1).some(n => n.index === 1)) first = i;
+    });
+    if (first === -1) return null;
+
+    const sequence = [markers[first]];
+    for (const marker of markers.slice(first + 1)) {
+        if (marker.index === sequence.length) sequence.push(marker);
+    }
+    const options = sequence.map((m, i) => text.slice(m.end, i + 1 < sequence.length ? sequence[i + 1].start : text.length).replace(/\s+/g, ' ').trim());
+    return { stem: text.slice(0, sequence[0].start).trim(), options };
+}
+
+function resolveAnswer(raw: string, options: string[]): number | null {
+    const value = raw.replace(/^option\s+/i, '').trim();
+    const marker = value.match(/^\(?([a-fA-F1-6])\)?(?=$|[\s.:)-])/);
+    if (marker) {
+        const label = marker[1];
+        return /\d/.test(label) ? parseInt(label, 10) - 1 : label.toLowerCase().charCodeAt(0) - 97;
+    }
+    const normalized = normalizeQuestionText(value);
+    const byText = options.findIndex(o => normalizeQuestionText(o) === normalized);
+    return byText === -1 ? null : byText;
+}
+
+// Splits the pasted text into one block per question. A numbered line only starts a new question once the
+// current one has options or an answer, so numbered statements inside a question stem stay with it.
+function splitBulkBlocks(text: string): ParseLine[][] {
+    const blocks: ParseLine[][] = [];
+    let current: ParseLine[] | null = null;
+    let complete = false;
+    let previousBlank = true;
+
+    text.split(/\r?\n/).forEach((raw, i) => {
+        const line = { no: i + 1, text: raw };
+        if (!raw.trim()) {
+            previousBlank = true;
+            if (current) current.push(line);
+            return;
+        }
+        const start = QUESTION_START_PATTERN.exec(raw);
+        const isTag = ANSWER_PATTERN.test(raw) || EXPLANATION_PATTERN.test(raw) || TAG_LINE_PATTERN.test(raw);
+        const startsQuestion = !current
+            || (start && (start[1] || complete))
+            || (complete && previousBlank && !isTag && current.some(l => ANSWER_PATTERN.test(l.text)));
+
+        if (startsQuestion) {
+            current = [];
+            blocks.push(current);
+            complete = false;
+        }
+        current.push(line);
+        if (ANSWER_PATTERN.test(raw) || /^\s*\(?[a-dA-D][).]\s*\S/.test(raw)) complete = true;
+        previousBlank = false;
+    });
+    return blocks;
+}
+
+function parseBulkBlock(block: ParseLine[]): { question: Question | null; errors: BulkParseError[] } {
+    const startLine = block[0].no;
+    const body: string[] = [];
+    const explanation: string[] = [];
+    let answerRaw: string | null = null;
+    let answerLine = startLine;
+    let subject = '';
+    let topic = '';
+    let section: 'body' | 'explanation' = 'body';
+
+    block.forEach((line, i) => {
+        const text = i === 0 ? line.text.replace(QUESTION_START_PATTERN, '') : line.text;
+        const answer = text.match(ANSWER_PATTERN);
+        const explanationMatch = text.match(EXPLANATION_PATTERN);
+        if (answer && answerRaw === null) {
+            answerRaw = answer[1];
+            answerLine = line.no;
+            section = 'explanation'; // untagged lines after the answer are read as explanation
+        } else if (explanationMatch) {
+            explanation.push(explanationMatch[1]);
+            section = 'explanation';
+        } else if (TAG_LINE_PATTERN.test(text)) {
+            subject = text.match(/subject\s*[:-]\s*([^|;]+)/i)?.[1].trim() || subject;
+            topic = text.match(/topic\s*[:-]\s*([^|;]+)/i)?.[1].trim() || topic;
+        } else if (section === 'explanation') {
+            explanation.push(text);
+        } else {
+            body.push(text);
+        }
+    });
+
+    const bodyText = body.join('\n').trim();
+    const parsed = splitOptions(bodyText, findOptionMarkers(bodyText, LETTER_OPTION_PATTERN, l => l.toLowerCase().charCodeAt(0) - 97))
+        || splitOptions(bodyText, findOptionMarkers(bodyText, NUMBER_OPTION_PATTERN, l => parseInt(l, 10) - 1));
+
+    const errors: BulkParseError[] = [];
+    if (!parsed) {
+        errors.push({ line: startLine, message: 'No options found. Expected options labelled A–D or 1–4.' });
+    } else {
+        if (!parsed.stem) errors.push({ line: startLine, message: 'Question text is empty.' });
+        if (parsed.options.some(o => !o)) errors.push({ line: startLine, message: 'One or more options are empty.' });
+    }
+    if (answerRaw === null) {
+        errors.push({ line: startLine, message: 'No "Answer:" line found.' });
+    } else if (parsed) {
+        const answer = resolveAnswer(answerRaw, parsed.options);
+        if (answer === null || answer < 0 || answer >= parsed.options.length) {
+            errors.push({ line: answerLine, message: `Answer "${answerRaw.trim()}" does not match any of the ${parsed.options.length} options.` });
+        } else if (errors.length === 0) {
+            return {
+                question: {
+                    question: parsed.stem,
+                    options: parsed.options,
+                    answer,
+                    explanation: explanation.join('\n').trim(),
+                    subject,
+                    topic
+                },
+                errors
+            };
+        }
+    }
+    return { question: null, errors };
+}
+
+function parseBulkQuestions(text: string): BulkParseResult {
+    const result: BulkParseResult = { questions: [], errors: [], unreadableBlocks: [] };
+    splitBulkBlocks(text).forEach(block => {
+        if (block.every(l => !l.text.trim())) return;
+        const { question, errors } = parseBulkBlock(block);
+        if (question) {
+            result.questions.push(question);
+        } else {
+            result.errors.push(...errors);
+            result.unreadableBlocks.push(block.map(l => l.text).join('\n').trim());
+        }
+    });
+    return result;
+}
+
+function renderBulkImportReport(result: BulkParseResult) {
+    bulkImportReport.innerHTML = '';
+    bulkImportReport.classList.remove('hidden');
+    bulkImportReport.classList.toggle('has-errors', result.errors.length > 0);
+
+    const summary = document.createElement('p');
+    summary.textContent = result.errors.length === 0
+        ? `Read ${result.questions.length} question(s) with no problems.`
+        : `Read ${result.questions.length} question(s); ${result.unreadableBlocks.length} block(s) could not be read:`;
+    bulkImportReport.appendChild(summary);
+
+    if (result.errors.length > 0) {
+        const list = document.createElement('ul');
+        result.errors.forEach(error => {
+            const item = document.createElement('li');
+            item.textContent = `Line ${error.line}: ${error.message}`;
+            list.appendChild(item);
+        });
+        bulkImportReport.appendChild(list);
+    }
+}
+
+function buildBulkImportPrompt(text: string): string {
+    return `Analyze the following text and extract ALL multiple-choice questions found within it.
+                
+                Your task:
+                1. Extract every valid question.
+                2. Map options to a string array.
+                3. Determine the correct answer index (0 for A/1, 1 for B/2, etc).
+                4. Extract explanation if present, otherwise generate a brief one.
+                5. Extract Subject and Topic if present, otherwise infer them from the question content.
+                6. Return the result strictly as a JSON array matching the schema.
+                
+                Input Text:
+                """${text}"""`;
+}
+
+// Parses the pasted questions locally and, if some blocks fail and the user agrees, sends just those blocks to the AI provider
+async function importBulkQuestions(text: string, language: string): Promise<Question[]> {
+    const result = parseBulkQuestions(text);
+    renderBulkImportReport(result);
+    if (result.unreadableBlocks.length === 0) return result.questions;
+
+    const useAI = confirm(`${result.unreadableBlocks.length} question block(s) could not be read (see the report under the text box).\n\nPress OK to send just those blocks to the AI provider for extraction, or Cancel to continue with the ${result.questions.length} question(s) that were read.`);
+    if (!useAI) {
+        if (result.questions.length === 0) throw new Error('No questions could be read. Check the report under the text box and fix the listed lines.');
+        return result.questions;
+    }
+
+    (loader.querySelector('p') as HTMLElement).textContent = `Asking AI to read ${result.unreadableBlocks.length} block(s)...`;
+    const { provider, model } = await getAIProvider();
+    try {
+        const extracted = await provider.generateQuestions({
+            contents: buildBulkImportPrompt(result.unreadableBlocks.join('\n\n')),
+            count: result.unreadableBlocks.length,
+            language,
+            source: 'Bulk Import'
+        }, model);
+        return [...result.questions, ...(Array.isArray(extracted) ? extracted : [])];
+    } catch (error) {
+        if (result.questions.length === 0) throw error;
+        console.error("Error extracting unreadable blocks with AI:", error);
+        showToast(`AI extraction failed; continuing with the ${result.questions.length} question(s) that were read.`, "warning");
+        return result.questions;
+    }
+}
+
+
+// --- File Import (CSV, XLSX, Aiken, GIFT) ---
+// Question sets shared as spreadsheets or Moodle Aiken/GIFT files are read on the device. Spreadsheets go through a
+// column-mapping step; every row or question block is then checked with validateQuestion() and shown in a preview,
+// and the readable ones become a new test (via the editor) or go straight into the question bank.
+type ImportFormat = 'csv' | 'xlsx' | 'aiken' | 'gift';
+type ImportField = 'question' | 'optionA' | 'optionB' | 'optionC' | 'optionD' | 'optionE' | 'optionF' | 'answer' | 'explanation' | 'subject' | 'topic' | 'difficulty';
+
+interface ImportRow {
+    label: string; // "Row 4" or "Line 12", pointing into the file
+    question: Question | null;
+    repairs: string[];
+    error?: string;
+}
+
+interface SpreadsheetTable {
+    headers: string[];
+    rows: { no: number; cells: string[] }[]; // no is the 1-based row number in the file
+}
+
+interface FileImport {
+    source: string; // file name
+    format: ImportFormat;
+    table: SpreadsheetTable | null; // spreadsheets only; rows are re-read whenever the column mapping changes
+    mapping: Partial<Record<ImportField, number>>; // column index per field
+    rows: ImportRow[];
+}
+
+const IMPORT_FIELDS: { id: ImportField; label: string; pattern: RegExp }[] = [
+    { id: 'question', label: 'Question', pattern: /^(question( text)?|q|stem)$/i },
+    { id: 'optionA', label: 'Option A', pattern: /^(option|choice|opt)?\s*[(]?(a|1)[)]?$/i },
+    { id: 'optionB', label: 'Option B', pattern: /^(option|choice|opt)?\s*[(]?(b|2)[)]?$/i },
+    { id: 'optionC', label: 'Option C', pattern: /^(option|choice|opt)?\s*[(]?(c|3)[)]?$/i },
+    { id: 'optionD', label: 'Option D', pattern: /^(option|choice|opt)?\s*[(]?(d|4)[)]?$/i },
+    { id: 'optionE', label: 'Option E', pattern: /^(option|choice|opt)?\s*[(]?(e|5)[)]?$/i },
+    { id: 'optionF', label: 'Option F', pattern: /^(option|choice|opt)?\s*[(]?(f|6)[)]?$/i },
+    { id: 'answer', label: 'Answer', pattern: /^(correct )?(answer|ans|key|correct)( key| option)?$/i },
+    { id: 'explanation', label: 'Explanation', pattern: /^(explanation|solution|rationale|feedback)$/i },
+    { id: 'subject', label: 'Subject', pattern: /^subject$/i },
+    { id: 'topic', label: 'Topic', pattern: /^(topic|chapter)$/i },
+    { id: 'difficulty', label: 'Difficulty', pattern: /^(difficulty|level)$/i },
+];
+const IMPORT_OPTION_FIELDS: ImportField[] = ['optionA', 'optionB', 'optionC', 'optionD', 'optionE', 'optionF'];
+
+let fileImport: FileImport | null = null;
+
+// Checks a row's question-shaped input the same way generated questions are checked
+function toImportRow(label: string, raw: Record<string, unknown> | null, error?: string): ImportRow {
+    if (!raw) return { label, question: null, repairs: [], error };
+    const { question, repairs, reason } = validateQuestion(raw);
+    return { label, question, repairs, error: question ? undefined : reason };
+}
+
+// Several answers ("A, C") make a multiple-correct question
+function answerFields(rawAnswer: string, options: string[]): Record<string, unknown> {
+    const parts = rawAnswer.split(/\s*[,;&]\s*|\s+and\s+/i).filter(Boolean);
+    const answers = parts.map(part => resolveAnswer(part, options));
+    if (parts.length > 1 && answers.every(a => a !== null)) {
+        return { answer: answers[0], answers, type: 'multiple' };
+    }
+    return { answer: resolveAnswer(rawAnswer, options) ?? rawAnswer };
+}
+
+// CSV
+
+function parseCSV(text: string): string[][] {
+    const source = text.replace(/^\uFEFF/, '');
+    const firstLine = source.slice(0, source.search(/\r?\n|$/));
+    const delimiter = [';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char !== '"') field += char;
+            else if (source[i + 1] === '"') field += source[i++];
+            else quoted = false;
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) rows.push([...row, field]);
+    return rows;
+}
 
-backToPerformanceListBtn.addEventListener('click', () => {
-    if (reportReturnView === performanceView) renderPerformanceHistory();
-    else if (reportReturnView === allTestsView) renderAllTests();
-    showView(reportReturnView);
-});
+// XLSX: a zip of XML parts, read with the browser's own deflate support
 
-closeModalBtn.addEventListener('click', () => {
-    analyticsModal.classList.add('hidden');
-});
+interface ZipEntry {
+    method: number; // 0 stored, 8 deflated
+    offset: number; // of the local file header
+    size: number; // compressed
+}
 
-// Close modal when clicking outside
-analyticsModal.addEventListener('click', (e) => {
-    if (e.target === analyticsModal) {
-        analyticsModal.classList.add('hidden');
+function listZipEntries(buffer: ArrayBuffer): Map<string, ZipEntry> {
+    const view = new DataView(buffer);
+    let end = buffer.byteLength - 22;
+    while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+    if (end < 0) throw new Error('The file is not a valid XLSX workbook.');
+
+    const entries = new Map<string, ZipEntry>();
+    const decoder = new TextDecoder();
+    let position = view.getUint32(end + 16, true);
+    for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+        if (view.getUint32(position, true) !== 0x02014b50) break;
+        const nameLength = view.getUint16(position + 28, true);
+        const name = decoder.decode(new Uint8Array(buffer, position + 46, nameLength));
+        entries.set(name, {
+            method: view.getUint16(position + 10, true),
+            size: view.getUint32(position + 20, true),
+            offset: view.getUint32(position + 42, true)
+        });
+        position += 46 + nameLength + view.getUint16(position + 30, true) + view.getUint16(position + 32, true);
+    }
+    return entries;
+}
+
+async function readZipEntry(buffer: ArrayBuffer, entry: ZipEntry): Promise<string> {
+    const view = new DataView(buffer);
+    const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+    const data = new Uint8Array(buffer, start, entry.size);
+    if (entry.method === 0) return new TextDecoder().decode(data);
+    if (entry.method !== 8) throw new Error('The workbook uses an unsupported compression method.');
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).text();
+}
+
+function xmlElements(node: Document | Element, name: string): Element[] {
+    return Array.from(node.getElementsByTagNameNS('*', name));
+}
+
+// "BC12" -> 54
+function cellColumn(ref: string): number {
+    const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+    return [...letters].reduce((n, letter) => n * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// The first worksheet as rows of cell text
+async function parseXLSX(buffer: ArrayBuffer): Promise<string[][]> {
+    const entries = listZipEntries(buffer);
+    const readXML = async (path: string) => {
+        const entry = entries.get(path);
+        return entry ? new DOMParser().parseFromString(await readZipEntry(buffer, entry), 'application/xml') : null;
+    };
+
+    const workbook = await readXML('xl/workbook.xml');
+    const relations = await readXML('xl/_rels/workbook.xml.rels');
+    const sheetRelation = workbook ? xmlElements(workbook, 'sheet')[0]?.getAttribute('r:id') : null;
+    const target = relations ? xmlElements(relations, 'Relationship').find(r => r.getAttribute('Id') === sheetRelation)?.getAttribute('Target') : null;
+    const sheet = await readXML(target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml');
+    if (!sheet) throw new Error('The workbook has no worksheet.');
+
+    const sharedStringsXML = await readXML('xl/sharedStrings.xml');
+    const sharedStrings = sharedStringsXML
+        ? xmlElements(sharedStringsXML, 'si').map(si => xmlElements(si, 't').filter(t => t.parentElement?.localName !== 'rPh').map(t => t.textContent).join(''))
+        : [];
+
+    const rows: string[][] = [];
+    xmlElements(sheet, 'row').forEach(rowElement => {
+        const cells: string[] = [];
+        xmlElements(rowElement, 'c').forEach((cell, i) => {
+            const ref = cell.getAttribute('r');
+            const value = xmlElements(cell, 'v')[0]?.textContent ?? '';
+            const type = cell.getAttribute('t');
+            cells[ref ? cellColumn(ref) : i] = type === 's' ? sharedStrings[parseInt(value, 10)] ?? ''
+                : type === 'inlineStr' ? xmlElements(cell, 't').map(t => t.textContent).join('')
+                : type === 'b' ? (value === '1' ? 'TRUE' : 'FALSE')
+                : value;
+        });
+        const rowNumber = parseInt(rowElement.getAttribute('r'), 10);
+        rows[Number.isNaN(rowNumber) ? rows.length : rowNumber - 1] = Array.from(cells, cell => cell ?? '');
+    });
+    return Array.from(rows, row => row ?? []);
+}
+
+// Spreadsheets (CSV and XLSX): the first row holds the column names
+
+function toSpreadsheetTable(rows: string[][]): SpreadsheetTable {
+    const [headers = [], ...data] = rows;
+    return {
+        headers: headers.map(h => h.trim()),
+        rows: data
+            .map((cells, i) => ({ no: i + 2, cells: cells.map(c => c.trim()) }))
+            .filter(row => row.cells.some(Boolean))
+    };
+}
+
+function guessColumnMapping(headers: string[]): Partial<Record<ImportField, number>> {
+    const mapping: Partial<Record<ImportField, number>> = {};
+    IMPORT_FIELDS.forEach(field => {
+        const column = headers.findIndex((header, i) => field.pattern.test(header) && !Object.values(mapping).includes(i));
+        if (column !== -1) mapping[field.id] = column;
+    });
+    return mapping;
+}
+
+function readSpreadsheetRows(table: SpreadsheetTable, mapping: Partial<Record<ImportField, number>>): ImportRow[] {
+    return table.rows.map(({ no, cells }) => {
+        const cell = (field: ImportField) => mapping[field] === undefined ? '' : cells[mapping[field]] ?? '';
+        const options = IMPORT_OPTION_FIELDS.filter(field => mapping[field] !== undefined).map(cell);
+        while (options.length > 0 && !options[options.length - 1]) options.pop();
+        return toImportRow(`Row ${no}`, {
+            question: cell('question'),
+            options,
+            ...answerFields(cell('answer'), options),
+            explanation: cell('explanation'),
+            subject: cell('subject'),
+            topic: cell('topic'),
+            difficulty: cell('difficulty')
+        });
+    });
+}
+
+// Aiken: the question, lettered options ("A. ..." or "A) ..."), then "ANSWER: B"
+
+const AIKEN_OPTION_PATTERN = /^([A-Z])[.)]\s+(.*)$/;
+const AIKEN_ANSWER_PATTERN = /^ANSWER:\s*(.*)$/i;
+
+function parseAiken(text: string): ImportRow[] {
+    const rows: ImportRow[] = [];
+    let stem: string[] = [];
+    let options: string[] = [];
+    let start = 0;
+    const reset = () => { stem = []; options = []; };
+
+    text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, i) => {
+        const trimmed = line.trim();
+        if (!trimmed) {
+            if (options.length > 0) {
+                rows.push(toImportRow(`Line ${start}`, null, 'no ANSWER: line after the options'));
+                reset();
+            } else if (stem.length > 0) {
+                stem.push('');
+            }
+            return;
+        }
+        if (stem.length === 0 && options.length === 0) start = i + 1;
+
+        const answerMatch = trimmed.match(AIKEN_ANSWER_PATTERN);
+        const optionMatch = trimmed.match(AIKEN_OPTION_PATTERN);
+        if (answerMatch) {
+            const letter = answerMatch[1].trim().toUpperCase();
+            rows.push(options.length === 0
+                ? toImportRow(`Line ${start}`, null, 'ANSWER: line without options')
+                : /^[A-Z]$/.test(letter) && letter.charCodeAt(0) - 65 < options.length
+                    ? toImportRow(`Line ${start}`, { question: stem.join('\n').trim(), options, answer: letter.charCodeAt(0) - 65 })
+                    : toImportRow(`Line ${start}`, null, `answer "${answerMatch[1].trim()}" is not one of the option letters`));
+            reset();
+        } else if (optionMatch && optionMatch[1].charCodeAt(0) - 65 === options.length && stem.length > 0) {
+            options.push(optionMatch[2].trim());
+        } else if (options.length > 0) {
+            options[options.length - 1] += ` ${trimmed}`; // an option wrapped onto the next line
+        } else {
+            stem.push(trimmed);
+        }
+    });
+    if (options.length > 0) rows.push(toImportRow(`Line ${start}`, null, 'no ANSWER: line after the options'));
+    return rows;
+}
+
+// GIFT (Moodle): "::Title:: Question text { =right ~wrong #feedback }", with "$CATEGORY:" lines and "//" comments.
+// Only multiple-choice questions fit the Question shape; "~%50%" weights mark the correct options of multiple-answer ones.
+
+function unescapeGift(text: string): string {
+    return text.replace(/\\n/g, '\n').replace(/\\([~=#{}:\\])/g, '$1').trim();
+}
+
+// Index of the first occurrence of `char` not escaped with a backslash, or -1
+function findUnescaped(text: string, char: string, from = 0): number {
+    for (let i = from; i < text.length; i++) {
+        if (text[i] === '\\') i++;
+        else if (text[i] === char) return i;
+    }
+    return -1;
+}
+
+// Splits on the characters in `separators` that aren't escaped, keeping each separator at the start of its part
+function splitUnescaped(text: string, separators: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\\') {
+            current += text[i] + (text[i + 1] ?? '');
+            i++;
+        } else if (separators.includes(text[i])) {
+            parts.push(current);
+            current = text[i];
+        } else {
+            current += text[i];
+        }
+    }
+    parts.push(current);
+    return parts;
+}
+
+function parseGiftQuestion(block: string, category: string): { raw: Record<string, unknown> | null; error?: string } {
+    const text = block.replace(/^::.*?::/s, '').trim();
+    const open = findUnescaped(text, '{');
+    const close = open === -1 ? -1 : findUnescaped(text, '}', open);
+    if (open === -1 || close === -1) return { raw: null, error: 'no answer block in { }' };
+
+    const before = text.slice(0, open).replace(/^\[(html|moodle|plain|markdown)\]/i, '').trim();
+    const after = text.slice(close + 1).trim();
+    const [body, generalFeedback] = text.slice(open + 1, close).trim().split(/(?<!\\)####/).map(part => part.trim());
+    if (/^(T|F|TRUE|FALSE)(\s*#.*)?$/is.test(body)) return { raw: null, error: 'true/false questions are not supported' };
+    if (body.startsWith('#')) return { raw: null, error: 'numerical questions are not supported' };
+
+    const choices = splitUnescaped(body, '=~').map(c => c.trim()).filter(Boolean);
+    if (choices.length === 0 || !choices.some(c => c.startsWith('~'))) {
+        return { raw: null, error: choices.some(c => c.includes('->')) ? 'matching questions are not supported' : 'short-answer questions are not supported' };
     }
+
+    const options: string[] = [];
+    const correct: number[] = [];
+    let answerFeedback = '';
+    choices.forEach(choice => {
+        const weight = choice.match(/^[=~]%(-?\d+(?:\.\d+)?)%/);
+        const [optionText, feedback = ''] = splitUnescaped(choice.slice(weight ? weight[0].length : 1), '#');
+        const isCorrect = weight ? parseFloat(weight[1]) > 0 : choice.startsWith('=');
+        if (isCorrect) {
+            correct.push(options.length);
+            if (!answerFeedback) answerFeedback = unescapeGift(feedback.slice(1));
+        }
+        options.push(unescapeGift(optionText));
+    });
+    if (correct.length === 0) return { raw: null, error: 'no option is marked correct' };
+
+    const path = category.split('/').map(part => part.trim()).filter(part => part && !/^(\$course\$|\$system\$|top)$/i.test(part));
+    return {
+        raw: {
+            question: unescapeGift(after ? `${before} _____ ${after}` : before),
+            options,
+            answer: correct[0],
+            ...(correct.length > 1 ? { type: 'multiple', answers: correct } : {}),
+            explanation: unescapeGift(generalFeedback ?? '') || answerFeedback,
+            subject: path[0] ?? '',
+            topic: path[path.length - 1] ?? ''
+        }
+    };
+}
+
+function parseGift(text: string): ImportRow[] {
+    const rows: ImportRow[] = [];
+    let category = '';
+    let block: string[] = [];
+    let start = 0;
+    const flush = () => {
+        if (block.length === 0) return;
+        const { raw, error } = parseGiftQuestion(block.join('\n'), category);
+        rows.push(toImportRow(`Line ${start}`, raw, error));
+        block = [];
+    };
+
+    text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, i) => {
+        if (/^\s*\/\//.test(line)) return;
+        const categoryMatch = line.match(/^\s*\$CATEGORY:\s*(.*)$/i);
+        if (categoryMatch) {
+            flush();
+            category = categoryMatch[1];
+            return;
+        }
+        if (!line.trim()) {
+            flush();
+            return;
+        }
+        if (block.length === 0) start = i + 1;
+        block.push(line);
+    });
+    flush();
+    return rows;
+}
+
+// Loading, mapping and preview
+
+function detectImportFormat(fileName: string, text: string | null): ImportFormat | null {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'csv' || extension === 'tsv') return 'csv';
+    if (extension === 'xlsx') return 'xlsx';
+    if (extension === 'gift') return 'gift';
+    if (text && /^\s*ANSWER:\s*[A-Z]\s*$/im.test(text)) return 'aiken';
+    if (text && /\{[^}]*[=~][^}]*\}/s.test(text)) return 'gift';
+    return null;
+}
+
+async function loadImportFile(file: File) {
+    const chosen = importFormatSelect.value as ImportFormat | '';
+    const isXLSX = chosen === 'xlsx' || (!chosen && file.name.toLowerCase().endsWith('.xlsx'));
+    const text = isXLSX ? null : await file.text();
+    const format = chosen || detectImportFormat(file.name, text);
+    if (!format) throw new Error('Could not tell the file format. Choose it from the Format list.');
+
+    const table = format === 'xlsx' ? toSpreadsheetTable(await parseXLSX(await file.arrayBuffer()))
+        : format === 'csv' ? toSpreadsheetTable(parseCSV(text))
+        : null;
+    const mapping = table ? guessColumnMapping(table.headers) : {};
+    fileImport = {
+        source: file.name,
+        format,
+        table,
+        mapping,
+        rows: table ? readSpreadsheetRows(table, mapping) : format === 'aiken' ? parseAiken(text) : parseGift(text)
+    };
+}
+
+function renderImportMapping() {
+    const table = fileImport?.table;
+    importMapping.classList.toggle('hidden', !table);
+    if (!table) return;
+    setHTML(importMapping, html`
+        <h4>Match the columns</h4>
+        <p class="import-mapping-note">Columns were matched by their names in the first row. Change any that are wrong; answers can be a letter, a number from 1, or the option text.</p>
+        <div class="import-mapping-grid">
+            ${IMPORT_FIELDS.map(field => html`
+                <div>
+                    <label for="import-map-${field.id}">${field.label}</label>
+                    <select id="import-map-${field.id}" data-import-field="${field.id}">
+                        <option value="">Not used</option>
+                        ${table.headers.map((header, i) => html`<option value="${i}" ${fileImport.mapping[field.id] === i ? 'selected' : ''}>${header || `Column ${i + 1}`}</option>`)}
+                    </select>
+                </div>
+            `)}
+        </div>
+    `);
+}
+
+function renderImportPreview() {
+    importPreview.classList.toggle('hidden', !fileImport);
+    if (!fileImport) return;
+    const readable = fileImport.rows.filter(row => row.question).length;
+    importToBankBtn.classList.toggle('hidden', readable === 0);
+    setHTML(importPreview, html`
+        <p class="import-summary">${readable} of ${fileImport.rows.length} question(s) in ${fileImport.source} can be imported.${readable < fileImport.rows.length ? ' Rows with errors are skipped.' : ''}</p>
+        <table class="import-preview-table">
+            <thead><tr><th>Where</th><th>Question</th><th>Status</th></tr></thead>
+            <tbody>
+                ${fileImport.rows.map(row => html`
+                    <tr class="${row.question ? (row.repairs.length > 0 ? 'repaired' : 'ok') : 'error'}">
+                        <td>${row.label}</td>
+                        <td>${row.question ? row.question.question : ''}</td>
+                        <td>${row.question
+                            ? (row.repairs.length > 0 ? `Imported with fixes: ${row.repairs.join(', ')}` : `OK (${row.question.options.length} options)`)
+                            : `Skipped: ${row.error}`}</td>
+                    </tr>
+                `)}
+            </tbody>
+        </table>
+    `);
+}
+
+function importedQuestions(): Question[] {
+    return (fileImport?.rows ?? []).filter(row => row.question).map(row => ({ ...row.question, source: fileImport.source }));
+}
+
+async function handleImportFileChange() {
+    const file = importFileInput.files?.[0];
+    fileImport = null;
+    if (file) {
+        try {
+            await loadImportFile(file);
+        } catch (error) {
+            console.error("Error reading import file:", error);
+            alert(`Could not read the file. ${error.message}`);
+        }
+    }
+    renderImportMapping();
+    renderImportPreview();
+}
+
+importFileInput.addEventListener('change', handleImportFileChange);
+importFormatSelect.addEventListener('change', handleImportFileChange);
+
+importMapping.addEventListener('change', e => {
+    const select = (e.target as HTMLElement).closest('select[data-import-field]') as HTMLSelectElement;
+    if (!select || !fileImport?.table) return;
+    const field = select.dataset.importField as ImportField;
+    if (select.value === '') delete fileImport.mapping[field];
+    else fileImport.mapping[field] = parseInt(select.value, 10);
+    fileImport.rows = readSpreadsheetRows(fileImport.table, fileImport.mapping);
+    renderImportPreview();
 });
 
-// Sidebar toggle for mobile test attempt view
-toggleSidebarBtn?.addEventListener('click', () => {
-    testSidebar?.classList.toggle('collapsed');
+importToBankBtn.addEventListener('click', async () => {
+    const questions = importedQuestions();
+    if (questions.length === 0) return;
+    try {
+        await saveBankQuestions(questions);
+    } catch (error) {
+        reportStorageError('add these questions to your question bank', error);
+        return;
+    }
+    showToast(`Added ${questions.length} question(s) to your question bank.`, "success");
 });
 
-// --- GLOBAL DELEGATED EVENT LISTENERS ---
-document.addEventListener('click', async (e) => {
-    const target = e.target as HTMLElement;
 
-    // Test Attempt View Controls
-    if (!testAttemptView.classList.contains('hidden')) {
-        if (target.closest('#submit-test-btn')) {
-            e.preventDefault();
-            handleSubmitTest();
-        } else if (target.closest('#back-to-all-tests')) {
-            e.preventDefault();
-            const timerWasRunning = timerInterval !== null;
-            if (timerWasRunning) stopTimer();
-            if (confirm("Are you sure you want to abandon this test? Your progress will be lost.")) {
-                currentTest = null;
-                showView(allTestsView);
-            } else {
-                if (timerWasRunning) startTimer();
+// --- Question Validation ---
+// Generated questions are checked against the Question shape before they reach the editor. Problems with a
+// safe fix (stray option labels, duplicate or extra distractors, an answer given as a letter) are repaired;
+// anything that would need guessing the intended answer is rejected.
+interface ValidationIssue {
+    index: number; // position in the generated list, 0-based
+    excerpt: string;
+    reason: string;
+}
+
+interface ValidationReport {
+    accepted: number;
+    repaired: ValidationIssue[];
+    rejected: ValidationIssue[];
+}
+
+const REQUIRED_OPTION_COUNT = 4;
+const MISSING_EXPLANATION_TEXT = 'No explanation was provided for this question.';
+
+function toCleanString(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+}
+
+function toCleanStringList(value: unknown): string[] {
+    return Array.isArray(value) ? value.map(toCleanString).filter(Boolean) : [];
+}
+
+// Reads the type-specific fields; a typed question whose fields are missing is kept as a single-answer question
+function validateQuestionType(input: Record<string, unknown>, repairs: string[]): Partial<Question> {
+    const typeText = toCleanString(input.type).toLowerCase();
+    if (!typeText || typeText === 'single') return {};
+    if (!QUESTION_TYPES.includes(typeText as QuestionType)) {
+        repairs.push(`treated unknown type "${typeText}" as single answer`);
+        return {};
+    }
+    const downgrade = (why: string): Partial<Question> => {
+        repairs.push(`treated as single answer (${why})`);
+        return {};
+    };
+    const prompt = toCleanString(input.prompt) || undefined;
+
+    switch (typeText as QuestionType) {
+        case 'multiple':
+            return { type: 'multiple' };
+        case 'statements': {
+            const statements = toCleanStringList(input.statements);
+            return statements.length >= 2 ? { type: 'statements', statements, prompt } : downgrade('fewer than 2 statements');
+        }
+        case 'match': {
+            const lists = (input.matchLists && typeof input.matchLists === 'object' ? input.matchLists : {}) as Record<string, unknown>;
+            const left = toCleanStringList(lists.left);
+            const right = toCleanStringList(lists.right);
+            return left.length >= 2 && right.length >= 2
+                ? { type: 'match', matchLists: { left, right }, prompt }
+                : downgrade('List I or List II is missing');
+        }
+        case 'assertion-reason': {
+            const assertion = toCleanString(input.assertion);
+            const reason = toCleanString(input.reason);
+            return assertion && reason ? { type: 'assertion-reason', assertion, reason } : downgrade('assertion or reason is missing');
+        }
+        default:
+            return {};
+    }
+}
+
+const OPTION_LABEL_SEQUENCES = ['ABCDEFGH', 'abcdefgh', '12345678'];
+
+// Removes "A.", "(b)", "3)" style labels, but only when every option has one and they run in order, so an answer
+// that starts with initials ("B. R. Ambedkar", "C. V. Raman") is left whole. Returns null when nothing is stripped.
+function stripOptionLabels(options: string[]): string[] | null {
+    const labels = options.map(option => option.match(/^\(?([a-hA-H1-8])[).:]\s+/));
+    if (labels.length === 0 || labels.some(label => !label)) return null;
+    const sequence = labels.map(label => label[1]).join('');
+    if (!OPTION_LABEL_SEQUENCES.some(labelSequence => labelSequence.startsWith(sequence))) return null;
+    return options.map((option, i) => option.slice(labels[i][0].length));
+}
+
+// Returns the repaired question and the repairs made, or the reason it was rejected
+function validateQuestion(raw: unknown): { question: Question | null; repairs: string[]; reason?: string } {
+    const repairs: string[] = [];
+    if (!raw || typeof raw !== 'object') return { question: null, repairs, reason: 'not a question object' };
+    const input = raw as Record<string, unknown>;
+
+    const text = toCleanString(input.question);
+    if (!text) return { question: null, repairs, reason: 'question text is empty' };
+    if (!Array.isArray(input.options)) return { question: null, repairs, reason: 'options are missing' };
+
+    let options = input.options.map(toCleanString);
+    const unlabelled = stripOptionLabels(options);
+    if (unlabelled) {
+        options = unlabelled;
+        repairs.push('removed option labels');
+    }
+
+    let answer: number | null = null;
+    if (typeof input.answer === 'number' && Number.isInteger(input.answer)) {
+        answer = input.answer;
+    } else {
+        const answerText = toCleanString(input.answer);
+        if (/^\d+$/.test(answerText)) {
+            answer = parseInt(answerText, 10);
+            repairs.push('converted answer to a number');
+        } else if (/^[a-hA-H]$/.test(answerText)) {
+            answer = answerText.toLowerCase().charCodeAt(0) - 97;
+            repairs.push(`converted answer "${answerText}" to an index`);
+        } else if (answerText) {
+            const byText = options.findIndex(o => normalizeQuestionText(o) === normalizeQuestionText(answerText));
+            if (byText !== -1) {
+                answer = byText;
+                repairs.push('matched answer text to its option');
             }
         }
-        return;
     }
-    
-    // Deeper Analysis Button in Performance Report
-    if (target.matches('.deeper-analysis-btn')) {
-        await handleDeeperAnalysis(target);
+    if (answer === null) return { question: null, repairs, reason: 'correct answer is missing' };
+    if (answer < 0 || answer >= options.length) {
+        return { question: null, repairs, reason: `answer index ${answer} is out of range for ${options.length} options` };
+    }
+    if (!options[answer]) return { question: null, repairs, reason: 'correct option is empty' };
+
+    const typed = validateQuestionType(input, repairs);
+    // Every correct option; only multiple-correct questions can have more than one
+    let correctIndices = [answer];
+    if (typed.type === 'multiple' && Array.isArray(input.answers)) {
+        const listed = input.answers.filter((a): a is number =>
+            typeof a === 'number' && Number.isInteger(a) && a >= 0 && a < options.length && !!options[a]);
+        if (listed.length < input.answers.length) repairs.push('dropped invalid entries from answers');
+        if (listed.length > 0) correctIndices = [...new Set(listed)].sort((a, b) => a - b);
     }
-});
 
+    // Drop empty and duplicate options, keeping the correct ones and re-pointing the answers at them
+    const correctKeys = new Set(correctIndices.map(i => normalizeQuestionText(options[i])));
+    const seen = new Set<string>();
+    const kept: string[] = [];
+    let removed = 0;
+    options.forEach((option, i) => {
+        const key = normalizeQuestionText(option);
+        if (!key || seen.has(key) || (correctKeys.has(key) && !correctIndices.includes(i))) {
+            removed++;
+            return;
+        }
+        seen.add(key);
+        kept.push(option);
+    });
+    if (removed > 0) repairs.push(`removed ${removed} empty or duplicate option(s)`);
+    options = kept;
+    correctIndices = options.map((o, i) => correctKeys.has(normalizeQuestionText(o)) ? i : -1).filter(i => i !== -1);
 
-// --- KEYBOARD SHORTCUTS FOR TEST ATTEMPT ---
-document.addEventListener('keydown', (e) => {
-    if (testAttemptView.classList.contains('hidden')) {
-        return;
+    if (options.length < REQUIRED_OPTION_COUNT) {
+        return { question: null, repairs, reason: `only ${options.length} distinct options` };
+    }
+    if (correctIndices.length > REQUIRED_OPTION_COUNT) {
+        return { question: null, repairs, reason: `${correctIndices.length} correct options is more than ${REQUIRED_OPTION_COUNT}` };
     }
+    if (options.length > REQUIRED_OPTION_COUNT) {
+        const extra = options.length - REQUIRED_OPTION_COUNT;
+        const correctOptions = correctIndices.map(i => options[i]);
+        const distractors = options
+            .filter((_, i) => !correctIndices.includes(i))
+            .slice(0, REQUIRED_OPTION_COUNT - correctOptions.length);
+        options = options.filter(o => correctOptions.includes(o) || distractors.includes(o));
+        correctIndices = correctOptions.map(o => options.indexOf(o));
+        repairs.push(`dropped ${extra} extra option(s)`);
+    }
+    answer = correctIndices[0];
 
-    const target = e.target as HTMLElement;
-    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
+    const images = Array.isArray(input.images)
+        ? (input.images as QuestionImage[]).filter(image => image && typeof image.id === 'string')
+        : [];
+
+    const difficulty = DIFFICULTY_LEVELS.find(level => level === toCleanString(input.difficulty).toLowerCase());
+
+    let explanation = toCleanString(input.explanation);
+    if (!explanation) {
+        explanation = MISSING_EXPLANATION_TEXT;
+        repairs.push('added a placeholder explanation');
+    }
+
+    return {
+        question: {
+            question: text,
+            options,
+            answer,
+            explanation,
+            subject: toCleanString(input.subject) || 'General',
+            topic: toCleanString(input.topic) || 'General',
+            ...typed,
+            ...(typed.type === 'multiple' ? { answers: correctIndices } : {}),
+            ...(images.length > 0 ? { images } : {}),
+            ...(difficulty ? { difficulty } : {})
+        },
+        repairs
+    };
+}
+
+function validateQuestions(raw: unknown[]): { questions: Question[]; report: ValidationReport } {
+    const report: ValidationReport = { accepted: 0, repaired: [], rejected: [] };
+    const questions: Question[] = [];
+
+    raw.forEach((item, index) => {
+        const { question, repairs, reason } = validateQuestion(item);
+        const excerpt = toCleanString((item as Partial<Question>)?.question).slice(0, 60);
+        if (!question) {
+            report.rejected.push({ index, excerpt, reason });
+            return;
+        }
+        questions.push(question);
+        if (repairs.length > 0) {
+            report.repaired.push({ index, excerpt, reason: repairs.join(', ') });
+        } else {
+            report.accepted++;
+        }
+    });
+    return { questions, report };
+}
+
+function describeValidationIssues(issues: ValidationIssue[]): string {
+    const reasons = [...new Set(issues.map(i => i.reason))];
+    return reasons.length > 0 ? ` (${reasons.join('; ')})` : '';
+}
+
+// Shows the validation outcome above the editor; pass null when editing a saved test
+function renderValidationSummary(report: ValidationReport | null) {
+    validationSummary.innerHTML = '';
+    if (!report || (report.repaired.length === 0 && report.rejected.length === 0)) {
+        validationSummary.classList.add('hidden');
         return;
     }
+    validationSummary.classList.remove('hidden');
+    validationSummary.classList.toggle('has-rejections', report.rejected.length > 0);
+
+    const summary = document.createElement('p');
+    summary.textContent = `${report.accepted} accepted, ${report.repaired.length} repaired, ${report.rejected.length} rejected${describeValidationIssues(report.rejected)}`;
+    validationSummary.appendChild(summary);
+
+    const list = document.createElement('ul');
+    [...report.rejected.map(i => ({ ...i, outcome: 'Rejected' })), ...report.repaired.map(i => ({ ...i, outcome: 'Repaired' }))]
+        .sort((a, b) => a.index - b.index)
+        .forEach(issue => {
+            const item = document.createElement('li');
+            item.textContent = `${issue.outcome} generated question ${issue.index + 1}${issue.excerpt ? ` ("${issue.excerpt}…")` : ''}: ${issue.reason}`;
+            list.appendChild(item);
+        });
+    validationSummary.appendChild(list);
+}
 
-    switch (e.key) {
-        case '1':
-        case '2':
-        case '3':
-        case '4':
-            e.preventDefault();
-            const optionIndex = parseInt(e.key, 10) - 1;
-            const radioButtons = document.querySelectorAll('.attempt-option-item input[type="radio"]') as NodeListOf<HTMLInputElement>;
-            if (radioButtons[optionIndex]) {
-                radioButtons[optionIndex].checked = true;
-            }
-            break;
 
-        case ' ': // Spacebar for Save & Next
-            e.preventDefault();
-            saveNextBtn.click();
-            break;
-            
-        case 'ArrowRight':
-            e.preventDefault();
-            saveNextBtn.click();
-            break;
-            
-        case 'ArrowLeft':
-            e.preventDefault();
-            prevBtn.click();
-            break;
+// --- Question Types ---
+// Besides plain single-answer questions, UPSC papers use multiple-correct, statement-based, match-the-following
+// and assertion-reason questions. All of them keep four options; only multiple-correct has more than one answer.
+const QUESTION_TYPES: QuestionType[] = ['single', 'multiple', 'statements', 'match', 'assertion-reason'];
 
-        case 'm':
-        case 'M':
-            e.preventDefault();
-            markReviewBtn.click();
-            break;
-            
-        case 'c':
-        case 'C':
-            e.preventDefault();
-            clearResponseBtn.click();
-            break;
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+    'single': 'Single answer',
+    'multiple': 'Multiple correct',
+    'statements': 'Statements',
+    'match': 'Match the following',
+    'assertion-reason': 'Assertion & Reason',
+};
+
+const ASSERTION_REASON_OPTIONS = [
+    "Both A and R are true, and R is the correct explanation of A",
+    "Both A and R are true, but R is not the correct explanation of A",
+    "A is true, but R is false",
+    "A is false, but R is true",
+];
+
+type TypedQuestionField = 'type' | 'answers' | 'statements' | 'matchLists' | 'assertion' | 'reason' | 'prompt';
+const TYPED_QUESTION_FIELDS: TypedQuestionField[] = ['type', 'answers', 'statements', 'matchLists', 'assertion', 'reason', 'prompt'];
+
+function questionTypeOf(q: Question): QuestionType {
+    return q.type ?? 'single';
+}
+
+// Sorted indices of every correct option
+function correctOptionIndices(q: Question): number[] {
+    if (questionTypeOf(q) === 'multiple' && q.answers?.length) return [...q.answers].sort((a, b) => a - b);
+    return [q.answer];
+}
+
+// Multiple-correct answers only count when exactly the correct options are chosen
+function isCorrectAnswer(q: Question, answer: UserAnswer): boolean {
+    if (answer === null || answer === undefined) return false;
+    const chosen = (Array.isArray(answer) ? [...answer] : [answer]).sort((a, b) => a - b);
+    const correct = correctOptionIndices(q);
+    return chosen.length === correct.length && chosen.every((option, i) => option === correct[i]);
+}
+
+function isOptionChosen(answer: UserAnswer, optionIndex: number): boolean {
+    return Array.isArray(answer) ? answer.includes(optionIndex) : answer === optionIndex;
+}
+
+// "A", or "A, C" for multiple-correct answers
+function formatAnswerLetters(answer: UserAnswer): string {
+    if (answer === null || answer === undefined) return '';
+    return (Array.isArray(answer) ? answer : [answer]).map(i => String.fromCharCode(65 + i)).join(', ');
+}
+
+// The question stem as HTML, followed by its images
+function renderQuestionStem(q: Question): SafeHTML {
+    return html`${renderQuestionBody(q)}${renderQuestionImages(q)}`;
+}
+
+// Statements, lists and assertion/reason are laid out from their own fields
+function renderQuestionBody(q: Question): SafeHTML {
+    const lead = renderWithTables(q.question, text => html`<p>${text}</p>`);
+    const prompt = q.prompt ? html`<p class="question-prompt">${q.prompt}</p>` : '';
+    switch (questionTypeOf(q)) {
+        case 'statements':
+            return html`
+                <div class="question-text statement-question">
+                    ${lead}
+                    <ol class="question-statements">${(q.statements ?? []).map(st => html`<li>${st}</li>`)}</ol>
+                    ${prompt}
+                </div>`;
+        case 'match': {
+            const left = q.matchLists?.left ?? [];
+            const right = q.matchLists?.right ?? [];
+            const rows = Array.from({ length: Math.max(left.length, right.length) }, (_, i) => html`
+                <tr>
+                    <td>${left[i] !== undefined ? html`<strong>${String.fromCharCode(65 + i)}.</strong> ${left[i]}` : ''}</td>
+                    <td>${right[i] !== undefined ? html`<strong>${i + 1}.</strong> ${right[i]}` : ''}</td>
+                </tr>`);
+            return html`
+                <div class="question-text">
+                    ${lead}
+                    <table class="match-table">
+                        <thead><tr><th>List I</th><th>List II</th></tr></thead>
+                        <tbody>${rows}</tbody>
+                    </table>
+                    ${prompt}
+                </div>`;
+        }
+        case 'assertion-reason':
+            return html`
+                <div class="question-text">
+                    ${lead}
+                    <p class="assertion-line"><strong>Assertion (A):</strong> ${q.assertion ?? ''}</p>
+                    <p class="assertion-line"><strong>Reason (R):</strong> ${q.reason ?? ''}</p>
+                </div>`;
+        default:
+            return renderWithTables(q.question, formatQuestionText);
+    }
+}
+
+// Plain-text stem for text reports and exports
+function questionStemText(q: Question): string {
+    switch (questionTypeOf(q)) {
+        case 'statements':
+            return [q.question, ...(q.statements ?? []).map((st, i) => `${i + 1}. ${st}`), q.prompt].filter(Boolean).join('\n');
+        case 'match': {
+            const left = (q.matchLists?.left ?? []).map((item, i) => `${String.fromCharCode(65 + i)}. ${item}`);
+            const right = (q.matchLists?.right ?? []).map((item, i) => `${i + 1}. ${item}`);
+            return [q.question, `List I: ${left.join('; ')}`, `List II: ${right.join('; ')}`, q.prompt].filter(Boolean).join('\n');
+        }
+        case 'assertion-reason':
+            return [q.question, `Assertion (A): ${q.assertion ?? ''}`, `Reason (R): ${q.reason ?? ''}`].join('\n');
+        default:
+            return q.question;
+    }
+}
+
+// Editor inputs for the fields of the question's type, shown under the question text
+function renderQuestionTypeEditor(q: Question, index: number | string): SafeHTML {
+    switch (questionTypeOf(q)) {
+        case 'statements':
+            return html`
+                <label for="q-statements-${index}">Statements (one per line)</label>
+                <textarea id="q-statements-${index}">${(q.statements ?? []).join('\n')}</textarea>
+                <label for="q-prompt-${index}">Closing Line</label>
+                <input type="text" id="q-prompt-${index}" value="${q.prompt ?? ''}" placeholder="How many of the above statements are correct?">`;
+        case 'match':
+            return html`
+                <div class="meta-grid">
+                    <div>
+                        <label for="q-list1-${index}">List I (one per line)</label>
+                        <textarea id="q-list1-${index}">${(q.matchLists?.left ?? []).join('\n')}</textarea>
+                    </div>
+                    <div>
+                        <label for="q-list2-${index}">List II (one per line)</label>
+                        <textarea id="q-list2-${index}">${(q.matchLists?.right ?? []).join('\n')}</textarea>
+                    </div>
+                </div>
+                <label for="q-prompt-${index}">Closing Line</label>
+                <input type="text" id="q-prompt-${index}" value="${q.prompt ?? ''}" placeholder="Select the correct answer using the code given below:">`;
+        case 'assertion-reason':
+            return html`
+                <label for="q-assertion-${index}">Assertion (A)</label>
+                <textarea id="q-assertion-${index}">${q.assertion ?? ''}</textarea>
+                <label for="q-reason-${index}">Reason (R)</label>
+                <textarea id="q-reason-${index}">${q.reason ?? ''}</textarea>`;
+        default:
+            return html``;
+    }
+}
+
+// Reads the inputs rendered by renderQuestionTypeEditor; `checked` are the options ticked as correct
+function readQuestionTypeFields(form: Element, index: number | string, type: QuestionType, checked: number[]): Partial<Question> {
+    const value = (id: string) => (form.querySelector(`#${id}-${index}`) as HTMLInputElement | HTMLTextAreaElement | null)?.value.trim() ?? '';
+    const lines = (id: string) => value(id).split('\n').map(line => line.trim()).filter(Boolean);
+    switch (type) {
+        case 'multiple':
+            return { type, answers: checked };
+        case 'statements':
+            return { type, statements: lines('q-statements'), prompt: value('q-prompt') || undefined };
+        case 'match':
+            return { type, matchLists: { left: lines('q-list1'), right: lines('q-list2') }, prompt: value('q-prompt') || undefined };
+        case 'assertion-reason':
+            return { type, assertion: value('q-assertion'), reason: value('q-reason') };
+        default:
+            return {};
     }
-});
+}
 
+// Returns a message for the first typed question that is missing its fields, or null when all are complete
+function validateQuestionTypes(test: Test): string | null {
+    for (const [i, q] of test.questions.entries()) {
+        const label = `Question ${i + 1} (${QUESTION_TYPE_LABELS[questionTypeOf(q)]})`;
+        switch (questionTypeOf(q)) {
+            case 'multiple':
+                if (!q.answers?.length) return `${label} needs at least one correct option.`;
+                break;
+            case 'statements':
+                if ((q.statements?.length ?? 0) < 2) return `${label} needs at least two statements.`;
+                break;
+            case 'match':
+                if ((q.matchLists?.left.length ?? 0) < 2 || (q.matchLists?.right.length ?? 0) < 2) return `${label} needs at least two items in each list.`;
+                break;
+            case 'assertion-reason':
+                if (!q.assertion || !q.reason) return `${label} needs both an assertion and a reason.`;
+                break;
+        }
+    }
+    return null;
+}
 
-// --- Create Test Logic ---
-tabs.forEach(tab => {
-    tab.addEventListener('click', () => {
-        tabs.forEach(t => {
-            t.classList.remove('active');
-            t.setAttribute('aria-selected', 'false');
-        });
-        tab.classList.add('active');
-        tab.setAttribute('aria-selected', 'true');
-        
-        const tabName = tab.getAttribute('data-tab');
-        activeTabInput.type = tabName;
 
-        tabPanes.forEach(pane => {
-            if (pane.id === `${tabName}-content`) {
-                pane.classList.add('active');
-            } else {
-                pane.classList.remove('active');
-            }
-        });
-    });
-});
+// --- Bilingual Questions ---
+// Like the printed paper, a question can carry its text in both English and Hindi. The question's own fields are
+// in the test's language and `translations` holds the other one, which the attempt view can switch to.
+const LANGUAGE_NATIVE_NAMES: Record<QuestionLanguage, string> = { English: 'English', Hindi: 'हिन्दी' };
+const TRANSLATION_BATCH_SIZE = 20;
 
-questionsSlider.addEventListener('input', () => {
-    questionsCount.textContent = questionsSlider.value;
-});
+function translationLanguageFor(test: Test): QuestionLanguage {
+    return test.language === 'English' ? 'Hindi' : 'English';
+}
 
-// Clear text button functionality
-document.querySelectorAll('.clear-text-btn').forEach(btn => {
-    btn.addEventListener('click', (e) => {
-        const targetId = (e.currentTarget as HTMLElement).getAttribute('data-target');
-        if (targetId) {
-            const targetElement = document.getElementById(targetId) as HTMLTextAreaElement;
-            if (targetElement && confirm('Are you sure you want to clear this text?')) {
-                targetElement.value = '';
-                targetElement.focus();
-            }
-        }
-    });
-});
+function hasTranslation(test: Test, language: QuestionLanguage): boolean {
+    return test.questions.some(q => q.translations?.[language]);
+}
 
-generateTestBtn.addEventListener('click', handleGenerateTest);
+function questionTextOf(q: Question): QuestionText {
+    const { question, options, explanation, statements, matchLists, assertion, reason, prompt } = q;
+    return { question, options, explanation, statements, matchLists, assertion, reason, prompt };
+}
 
-async function handleGenerateTest() {
-    if (!ai) {
-        alert("AI Service is not available.");
-        return;
+// The question as shown in `language`; falls back to the test's language where there is no translation
+function localizeQuestion(q: Question, language: string): Question {
+    const text = q.translations?.[language as QuestionLanguage];
+    if (!text) return q;
+    const present = Object.entries(text).filter(([, value]) => value !== undefined && value !== '');
+    return { ...q, ...Object.fromEntries(present) };
+}
+
+// Cleans one provider result; null when it does not line up with the original question
+function cleanTranslation(raw: unknown, original: Question): QuestionText | null {
+    if (!raw || typeof raw !== 'object') return null;
+    const input = raw as Record<string, unknown>;
+    const question = toCleanString(input.question);
+    const options = Array.isArray(input.options) ? input.options.map(toCleanString) : [];
+    if (!question || options.length !== original.options.length || options.some(o => !o)) return null;
+
+    const text: QuestionText = { question, options, explanation: toCleanString(input.explanation) };
+    if (original.statements) text.statements = toCleanStringList(input.statements);
+    if (original.matchLists) {
+        const lists = (input.matchLists && typeof input.matchLists === 'object' ? input.matchLists : {}) as Record<string, unknown>;
+        text.matchLists = { left: toCleanStringList(lists.left), right: toCleanStringList(lists.right) };
     }
+    if (original.assertion) text.assertion = toCleanString(input.assertion);
+    if (original.reason) text.reason = toCleanString(input.reason);
+    if (original.prompt) text.prompt = toCleanString(input.prompt);
+    return text;
+}
 
-    loader.classList.remove('hidden');
-    generateTestBtn.disabled = true;
+// Editor inputs for the question's translation, shown once it has one so it can be reviewed before saving
+function renderTranslationEditor(q: Question, index: number, language: QuestionLanguage): SafeHTML {
+    const text = q.translations?.[language];
+    if (!text) return html``;
+    return html`
+        <div class="translation-editor">
+            <h5>${language} (${LANGUAGE_NATIVE_NAMES[language]})</h5>
+            <label for="q-tr-text-${index}">Question Text</label>
+            <textarea id="q-tr-text-${index}">${text.question}</textarea>
+            ${renderQuestionTypeEditor({ ...q, ...text }, `tr-${index}`)}
+            <label>Options</label>
+            ${text.options.map((opt, optIndex) => html`<input type="text" class="translation-option" value="${opt}" placeholder="Option ${optIndex + 1}">`)}
+            <label for="q-tr-exp-${index}">Explanation</label>
+            <textarea id="q-tr-exp-${index}">${text.explanation}</textarea>
+        </div>`;
+}
 
-    let source = "Custom Input";
-    let contentsForApi;
+// Reads the inputs rendered by renderTranslationEditor; clearing the translated question text removes the translation
+function readTranslationEditor(form: Element, index: number, type: QuestionType): QuestionText | null {
+    const editor = form.querySelector('.translation-editor');
+    if (!editor) return null;
+    const question = (editor.querySelector(`#q-tr-text-${index}`) as HTMLTextAreaElement).value.trim();
+    if (!question) return null;
+
+    const fields = readQuestionTypeFields(editor, `tr-${index}`, type, []);
+    return {
+        question,
+        options: Array.from(editor.querySelectorAll('.translation-option')).map(input => (input as HTMLInputElement).value.trim()),
+        explanation: (editor.querySelector(`#q-tr-exp-${index}`) as HTMLTextAreaElement).value.trim(),
+        statements: fields.statements,
+        matchLists: fields.matchLists,
+        assertion: fields.assertion,
+        reason: fields.reason,
+        prompt: fields.prompt,
+    };
+}
 
-    const numQuestions = parseInt(questionsSlider.value, 10);
-    const language = languageSelect.value;
-    const testName = testNameInput.value.trim();
-    const marks = parseFloat(marksInput.value) || 1;
-    const negative = parseFloat(negativeInput.value) || 0;
+// Fills in the missing translation of every question with the AI provider, then shows them in the editor for review
+async function translateCurrentTest() {
+    if (!currentTest) return;
+    syncCurrentTestFromDOM();
+    const target = translationLanguageFor(currentTest);
+    const pending = currentTest.questions
+        .map((q, index) => ({ q, index }))
+        .filter(({ q }) => !q.translations?.[target]);
+    if (pending.length === 0) {
+        showToast(`Every question already has a ${target} translation.`, "info");
+        return;
+    }
 
+    translateTestBtn.disabled = true;
+    const translated = new Map<number, QuestionText>();
+    let failure: Error | null = null;
     try {
-        switch (activeTabInput.type) {
-            case 'topic':
-                const topic = topicInput.value.trim();
-                if (!topic) throw new Error('Please enter a topic.');
-                source = topic;
-                const promptTopic = `Generate ${numQuestions} UPSC-style multiple-choice questions (4 options) based on the following topic: ${topic}. The questions should be in ${language}. For each question, provide the question, four options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic.`;
-                contentsForApi = promptTopic;
-                break;
-            case 'text':
-                const text = textInput.value.trim();
-                if (!text) throw new Error('Please paste some text.');
-                source = "Pasted Text";
-                const promptText = `Generate ${numQuestions} UPSC-style multiple-choice questions (4 options) based on the following text: """${text}""". The questions should be in ${language}. For each question, provide the question, four options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic.`;
-                contentsForApi = promptText;
-                break;
-            case 'manual':
-                const manualText = manualInput.value.trim();
-                if (!manualText) throw new Error('Please paste your questions in the text area.');
-                source = "Bulk Import";
-                const promptManual = `Analyze the following text and extract ALL multiple-choice questions found within it.
-                
-                The text is expected to contain questions in a format similar to:
-                "Q. Question text... A) Opt1 B) Opt2... Answer: A Explanation: ..."
-                
-                Your task:
-                1. Extract every valid question.
-                2. Map options to a string array.
-                3. Determine the correct answer index (0 for A/1, 1 for B/2, etc).
-                4. Extract explanation if present, otherwise generate a brief one.
-                5. Extract Subject and Topic if present, otherwise infer them from the question content.
-                6. Return the result strictly as a JSON array matching the schema.
-                
-                Input Text:
-                """${manualText}"""`;
-                contentsForApi = promptManual;
-                break;
-            case 'file':
-                const file = fileUpload.files[0];
-                if (!file) throw new Error('Please select a file to upload.');
-                source = file.name;
+        const { provider, model } = await getAIProvider();
+        for (let start = 0; start < pending.length; start += TRANSLATION_BATCH_SIZE) {
+            const batch = pending.slice(start, start + TRANSLATION_BATCH_SIZE);
+            translateTestLabel.textContent = `Translating ${start + 1}-${start + batch.length} of ${pending.length}...`;
+            const result = await provider.translateQuestions({
+                questions: batch.map(({ q }) => questionTextOf(q)),
+                from: currentTest.language,
+                to: target
+            }, model);
+            batch.forEach(({ q, index }, i) => {
+                const text = cleanTranslation(Array.isArray(result) ? result[i] : null, q);
+                if (text) translated.set(index, text);
+            });
+        }
+    } catch (error) {
+        console.error("Error translating test:", error);
+        failure = error;
+    } finally {
+        translateTestBtn.disabled = false;
+    }
 
-                if (file.type === "text/plain" || file.name.toLowerCase().endsWith('.txt')) {
-                    const fileText = await file.text();
-                    if (!fileText.trim()) throw new Error('The uploaded file is empty.');
-                    const promptFileText = `Generate ${numQuestions} ... based on the following text: """${fileText}"""`;
-                    contentsForApi = promptFileText;
-                } else if (file.type === "application/pdf" || file.name.toLowerCase().endsWith('.pdf')) {
-                    const arrayBuffer = await file.arrayBuffer();
-                    const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-                    let fullText = '';
-                    for (let i = 1; i <= pdf.numPages; i++) {
-                        const page = await pdf.getPage(i);
-                        const textContent = await page.getTextContent();
-                        const pageText = textContent.items.map(item => ('str' in item ? item.str : '')).join(' ');
-                        fullText += pageText + '\n\n';
-                    }
+    // Re-read the editor so edits made while waiting are kept
+    syncCurrentTestFromDOM();
+    translated.forEach((text, index) => {
+        const question = currentTest.questions[index];
+        if (question) question.translations = { ...question.translations, [target]: text };
+    });
+    renderEditableTest(currentTest);
 
-                    const MINIMUM_TEXT_LENGTH = 100;
+    const skipped = pending.length - translated.size;
+    if (failure) {
+        alert(`Translation stopped after ${translated.size} question(s). ${failure.message}`);
+    } else if (skipped > 0) {
+        showToast(`Translated ${translated.size} question(s); ${skipped} could not be matched to their options and were left as they are.`, "warning");
+    } else {
+        showToast(`Translated ${translated.size} question(s) into ${target}. Review them below before saving.`, "success");
+    }
+}
 
-                    if (fullText.trim().length > MINIMUM_TEXT_LENGTH) {
-                        const promptPDFText = `Generate ${numQuestions} UPSC-style multiple-choice questions (4 options) based on the following text. The questions should be in ${language}. For each question, provide the question, four options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic.\n\nText: """${fullText}"""`;
-                        contentsForApi = promptPDFText;
-                    } else {
-                        (loader.querySelector('p') as HTMLElement).textContent = 'Minimal text found. Attempting OCR on PDF pages for better results...';
-                        
-                        const textPart = { text: `Generate ${numQuestions} UPSC-style multiple-choice questions (4 options) based on the content in the following images. The questions should be in ${language}. For each question, provide the question, four options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic.` };
-                        const imageParts = [];
+translateTestBtn.addEventListener('click', translateCurrentTest);
 
-                        for (let i = 1; i <= pdf.numPages; i++) {
-                            const page = await pdf.getPage(i);
-                            const viewport = page.getViewport({ scale: 1.5 });
-                            const canvas = document.createElement('canvas');
-                            const context = canvas.getContext('2d');
-                            canvas.height = viewport.height;
-                            canvas.width = viewport.width;
+// Shows the toggle only for tests that have a translation, labelled with the language it switches to
+function updateLanguageToggle() {
+    const other = translationLanguageFor(currentTest);
+    const available = hasTranslation(currentTest, other);
+    languageToggleBtn.classList.toggle('hidden', !available);
+    const next = attemptLanguage === currentTest.language ? other : currentTest.language as QuestionLanguage;
+    languageToggleLabel.textContent = LANGUAGE_NATIVE_NAMES[next] ?? next;
+}
 
-                            await page.render({ canvasContext: context, viewport: viewport, canvas: canvas } as any).promise;
-                            
-                            const base64Image = canvas.toDataURL('image/jpeg').split(',')[1];
-                            imageParts.push({ inlineData: { mimeType: 'image/jpeg', data: base64Image } });
-                        }
-                        if (imageParts.length === 0) throw new Error('Could not extract any images from the PDF.');
+languageToggleBtn.addEventListener('click', () => {
+    if (!currentTest) return;
+    const other = translationLanguageFor(currentTest);
+    attemptLanguage = attemptLanguage === currentTest.language ? other : currentTest.language;
+    renderQuestionForAttempt();
+    updateLanguageToggle();
+    saveAttemptCheckpoint();
+});
 
-                        contentsForApi = { parts: [textPart, ...imageParts] };
-                    }
-                } else {
-                    throw new Error(`Unsupported file type: '${file.type || 'unknown'}'. Please upload a PDF or TXT file.`);
-                }
-                break;
-        }
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: contentsForApi,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: questionSchema,
-                },
-            },
+// --- Question Images & Tables ---
+// Questions can show maps, charts and cropped page regions, and Markdown tables in their text. Images are
+// compressed before they're stored; rendered HTML carries <img data-image-id> placeholders that
+// loadQuestionImages() fills in once the HTML is on the page.
+const MAX_IMAGE_DIMENSION = 1600; // in pixels, along the longer side
+const IMAGE_QUALITY = 0.85;
+const imageURLs = new Map<string, Promise<string | null>>(); // object URLs, keyed by owner and image ID
+
+interface ImageCrop {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Scales the image (or the cropped part of it) down to MAX_IMAGE_DIMENSION and encodes it as WebP, or JPEG where WebP isn't supported
+async function compressImage(source: ImageBitmap | HTMLCanvasElement, crop: ImageCrop = { x: 0, y: 0, width: source.width, height: source.height }): Promise<Blob> {
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(crop.width, crop.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(crop.width * scale));
+    canvas.height = Math.max(1, Math.round(crop.height * scale));
+    const context = canvas.getContext('2d');
+    context.fillStyle = '#ffffff'; // JPEG has no transparency
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+
+    const encode = (type: string) => new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, IMAGE_QUALITY));
+    const webp = await encode('image/webp');
+    if (webp?.type === 'image/webp') return webp;
+    const jpeg = await encode('image/jpeg');
+    if (!jpeg) throw new Error('Could not encode the image.');
+    return jpeg;
+}
+
+async function storeImageFile(file: File): Promise<string> {
+    const bitmap = await createImageBitmap(file);
+    try {
+        return await saveImage(await compressImage(bitmap));
+    } finally {
+        bitmap.close();
+    }
+}
+
+function imageURL(id: string): Promise<string | null> {
+    const key = `${currentUser?.username}/${id}`;
+    if (!imageURLs.has(key)) {
+        imageURLs.set(key, getImage(id)
+            .then(blob => blob ? URL.createObjectURL(blob) : null)
+            .catch(error => {
+                console.error("Error loading question image:", error);
+                return null;
+            }));
+    }
+    return imageURLs.get(key);
+}
+
+// Fills in the question images rendered into `container`
+function loadQuestionImages(container: HTMLElement) {
+    container.querySelectorAll<HTMLImageElement>('img[data-image-id]:not([src])').forEach(img => {
+        imageURL(img.dataset.imageId).then(url => {
+            if (url) img.src = url;
+            else img.closest('figure')?.classList.add('image-missing');
         });
+    });
+}
 
-        if (!response || !response.text) {
-            console.error("Invalid AI Response:", response);
-            const finishReason = response?.candidates?.[0]?.finishReason;
-            let errorMessage = "AI did not return a valid response. It might be empty or malformed.";
-            if (finishReason === 'SAFETY') {
-                errorMessage = "The request was blocked due to safety concerns. Please adjust your input text or file.";
-            } else if (finishReason) {
-                errorMessage = `Generation failed. Reason: ${finishReason}.`;
-            }
-            throw new Error(errorMessage);
+function renderQuestionImages(q: Question): SafeHTML {
+    if (!q.images?.length) return html``;
+    return html`<div class="question-images">${q.images.map(image => html`
+        <figure class="question-image">
+            <img data-image-id="${image.id}" alt="${image.caption || 'Question image'}">
+            ${image.caption ? html`<figcaption>${image.caption}</figcaption>` : ''}
+        </figure>`)}</div>`;
+}
+
+function isTableSeparator(line: string): boolean {
+    return line.includes('|') && /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line);
+}
+
+function parseTableRow(line: string): string[] {
+    return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+// Renders Markdown pipe tables in `text` as real tables, and the text around them with `renderText`
+function renderWithTables(text: string, renderText: (text: string) => SafeHTML): SafeHTML {
+    const lines = (text ?? '').split('\n');
+    if (!lines.some((line, i) => line.includes('|') && isTableSeparator(lines[i + 1] ?? ''))) return renderText(text);
+
+    const parts: SafeHTML[] = [];
+    let pending: string[] = [];
+    const flush = () => {
+        if (pending.join('').trim()) parts.push(renderText(pending.join('\n')));
+        pending = [];
+    };
+    for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].includes('|') || !isTableSeparator(lines[i + 1] ?? '')) {
+            pending.push(lines[i]);
+            continue;
         }
+        flush();
+        const header = parseTableRow(lines[i]);
+        const rows: string[][] = [];
+        i += 2;
+        while (i < lines.length && lines[i].includes('|')) rows.push(parseTableRow(lines[i++]));
+        i--;
+        parts.push(html`
+            <table class="md-table">
+                <thead><tr>${header.map(cell => html`<th>${cell}</th>`)}</tr></thead>
+                <tbody>${rows.map(row => html`<tr>${row.map(cell => html`<td>${cell}</td>`)}</tr>`)}</tbody>
+            </table>`);
+    }
+    flush();
+    return html`${parts}`;
+}
 
-        const parsedResponse = JSON.parse(response.text);
+function renderExplanationText(text: string): SafeHTML {
+    return renderWithTables(text, part => html`<p>${part}</p>`);
+}
 
-        if (!Array.isArray(parsedResponse) || parsedResponse.length === 0) {
-            throw new Error("Invalid response format from AI. The generated content was not a valid list of questions.");
+// Editor inputs for the question's images: a thumbnail and caption for each, and a file picker to add more
+function renderQuestionImagesEditor(q: Question, index: number): SafeHTML {
+    return html`
+        <label>Images (maps, charts, tables)</label>
+        <div class="question-images-editor">
+            ${(q.images ?? []).map(image => html`
+                <div class="image-editor-item" data-image-id="${image.id}">
+                    <img data-image-id="${image.id}" alt="">
+                    <input type="text" class="image-caption" value="${image.caption ?? ''}" placeholder="Caption (optional)">
+                    <button type="button" class="icon-btn remove-image" title="Remove Image">
+                        <span class="material-symbols-outlined">close</span>
+                    </button>
+                </div>
+            `)}
+            <label class="add-image-label" for="q-image-input-${index}">
+                <span class="material-symbols-outlined">add_photo_alternate</span> Add Image
+            </label>
+            <input type="file" id="q-image-input-${index}" class="add-image-input hidden" accept="image/*" multiple>
+        </div>`;
+}
+
+function readQuestionImagesEditor(form: Element): QuestionImage[] {
+    return Array.from(form.querySelectorAll('.image-editor-item')).map(item => {
+        const caption = (item.querySelector('.image-caption') as HTMLInputElement).value.trim();
+        return { id: (item as HTMLElement).dataset.imageId, ...(caption ? { caption } : {}) };
+    });
+}
+
+// Crops the figure each generated question points at out of its rendered page, and attaches it as an image
+async function attachPageFigures(questions: Question[], pages: HTMLCanvasElement[]): Promise<Question[]> {
+    const attached: Question[] = [];
+    for (const generated of questions) {
+        const { figure, ...question } = generated as Question & { figure?: { page?: number; box?: number[] } };
+        const page = figure ? pages[(figure.page ?? 0) - 1] : undefined;
+        if (!page || !Array.isArray(figure.box) || figure.box.length !== 4) {
+            attached.push(question);
+            continue;
+        }
+        // Boxes are [ymin, xmin, ymax, xmax] on a 0-1000 scale; pad them a little so labels aren't cut off
+        const [ymin, xmin, ymax, xmax] = figure.box.map(v => Math.min(1000, Math.max(0, Number(v) || 0)) / 1000);
+        const x = Math.max(0, xmin - 0.01) * page.width;
+        const y = Math.max(0, ymin - 0.01) * page.height;
+        const crop = { x, y, width: Math.min(1, xmax + 0.01) * page.width - x, height: Math.min(1, ymax + 0.01) * page.height - y };
+        if (crop.width < 20 || crop.height < 20) {
+            attached.push(question);
+            continue;
         }
+        try {
+            const id = await saveImage(await compressImage(page, crop));
+            attached.push({ ...question, images: [...(question.images ?? []), { id }] });
+        } catch (error) {
+            console.error("Error cropping a figure from the PDF:", error);
+            attached.push(question);
+        }
+    }
+    return attached;
+}
 
-        currentTest = {
-            id: `test_${Date.now()}`,
-            name: testName || `Test on ${source}`,
-            questions: parsedResponse,
-            duration: parseInt(durationInput.value, 10),
-            language: language,
-            createdAt: new Date().toISOString(),
-            marksPerQuestion: marks,
-            negativeMarking: negative
-        };
+function blobToDataURL(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
 
-        renderEditableTest(currentTest);
-        showView(editTestView);
-    } catch (error) {
-        console.error("Error generating test:", error);
-        alert(`Failed to generate test. ${error.message}`);
-    } finally {
-        (loader.querySelector('p') as HTMLElement).textContent = 'Generating your test, please wait...';
-        loader.classList.add('hidden');
-        generateTestBtn.disabled = false;
+// Image data to put in a JSON export, so the file still shows its images when imported on another device
+async function exportImages(questions: Question[]): Promise<Record<string, string>> {
+    const data: Record<string, string> = {};
+    for (const id of new Set(questions.flatMap(q => q.images?.map(image => image.id) ?? []))) {
+        const blob = await getImage(id);
+        if (blob) data[id] = await blobToDataURL(blob);
+    }
+    return data;
+}
+
+// Stores the image data of an imported file under the IDs its questions use
+async function importImages(data: unknown): Promise<void> {
+    if (!data || typeof data !== 'object') return;
+    const records: ImageRecord[] = [];
+    for (const [id, url] of Object.entries(data)) {
+        if (typeof url !== 'string' || !url.startsWith('data:image/')) continue;
+        records.push({ id, blob: await (await fetch(url)).blob() });
     }
+    if (records.length > 0) await putForOwner<ImageRecord>('images', records);
 }
 
 
 // --- Edit Test Logic ---
 function renderEditableTest(test: Test) {
     editTestTitle.textContent = `Review & Edit: ${test.name}`;
+    renderSectionsEditor(test);
+    const translationLanguage = translationLanguageFor(test);
+    translateTestLabel.textContent = `Translate to ${translationLanguage}`;
     
     // We render using a details/summary structure (or similar) to make it collapsible.
     // However, native <details> with form inputs can be tricky if we want to programmatically open/close,
     // so we'll use a custom structure with delegated events.
     
-    editableQuestionsContainer.innerHTML = test.questions.map((q, index) => `
+    setHTML(editableQuestionsContainer, test.questions.map((q, index) => html`
         <div class="editable-question-item" data-question-index="${index}" id="eq-${index}">
             <div class="editable-question-header">
                 <h4>Question ${index + 1}</h4>
@@ -857,17 +4243,23 @@ function renderEditableTest(test: Test) {
             </div>
             
             <div class="editable-question-body hidden">
+                <label for="q-type-${index}">Question Type</label>
+                <select id="q-type-${index}" class="q-type-select">
+                    ${QUESTION_TYPES.map(type => html`<option value="${type}" ${questionTypeOf(q) === type ? 'selected' : ''}>${QUESTION_TYPE_LABELS[type]}</option>`)}
+                </select>
+
                 <label for="q-text-${index}">Question Text</label>
                 <textarea id="q-text-${index}">${q.question}</textarea>
+                ${renderQuestionTypeEditor(q, index)}
                 
-                <label>Options (Select Correct Answer)</label>
+                <label>${questionTypeOf(q) === 'multiple' ? 'Options (Select All Correct Answers)' : 'Options (Select Correct Answer)'}</label>
                 <div class="options-editor">
-                    ${q.options.map((opt, optIndex) => `
+                    ${q.options.map((opt, optIndex) => html`
                         <div class="option-item">
-                            <input type="radio" name="q-answer-${index}" value="${optIndex}" ${q.answer === optIndex ? 'checked' : ''}>
+                            <input type="${questionTypeOf(q) === 'multiple' ? 'checkbox' : 'radio'}" name="q-answer-${index}" value="${optIndex}" ${correctOptionIndices(q).includes(optIndex) ? 'checked' : ''}>
                             <input type="text" value="${opt}" placeholder="Option ${optIndex + 1}">
                         </div>
-                    `).join('')}
+                    `)}
                 </div>
                 
                 <div class="meta-grid">
@@ -881,11 +4273,15 @@ function renderEditableTest(test: Test) {
                     </div>
                 </div>
                 
+                ${renderDifficultyEditor(q, index)}
+                ${renderQuestionImagesEditor(q, index)}
+
                 <label for="q-exp-${index}">Explanation</label>
                 <textarea id="q-exp-${index}">${q.explanation}</textarea>
+                ${renderTranslationEditor(q, index, translationLanguage)}
             </div>
         </div>
-    `).join('');
+    `));
 
     // Open first question by default
     const firstItem = document.getElementById('eq-0');
@@ -894,6 +4290,15 @@ function renderEditableTest(test: Test) {
         firstItem.querySelector('.editable-question-body').classList.remove('hidden');
         firstItem.querySelector('.toggle-q span').textContent = 'expand_less';
     }
+    loadQuestionImages(editableQuestionsContainer);
+}
+
+function reopenEditableQuestion(index: number) {
+    const item = document.getElementById(`eq-${index}`);
+    if (!item) return;
+    item.setAttribute('open', '');
+    item.querySelector('.editable-question-body').classList.remove('hidden');
+    item.querySelector('.toggle-q span').textContent = 'expand_less';
 }
 
 // Delegated events for the editable container (Delete & Toggle)
@@ -916,6 +4321,12 @@ editableQuestionsContainer.addEventListener('click', (e) => {
         return;
     }
 
+    const removeImageBtn = target.closest('.remove-image');
+    if (removeImageBtn) {
+        removeImageBtn.closest('.image-editor-item').remove();
+        return;
+    }
+
     // Handle Toggle (Header click or button click)
     const header = target.closest('.editable-question-header');
     const toggleBtn = target.closest('.toggle-q');
@@ -941,11 +4352,46 @@ editableQuestionsContainer.addEventListener('click', (e) => {
     }
 });
 
+// Switching a question's type re-renders the editor with that type's inputs
+editableQuestionsContainer.addEventListener('change', async (e) => {
+    const target = e.target as HTMLElement;
+    const item = target.closest('.editable-question-item') as HTMLElement;
+    if (!item) return;
+    const index = parseInt(item.dataset.questionIndex, 10);
+
+    if (target.matches('.q-type-select')) {
+        syncCurrentTestFromDOM();
+        const question = currentTest.questions[index];
+        if (question.type === 'assertion-reason' && question.options.every(o => !o.trim())) {
+            question.options = [...ASSERTION_REASON_OPTIONS];
+        }
+        renderEditableTest(currentTest);
+        reopenEditableQuestion(index);
+    } else if (target.matches('.add-image-input')) {
+        const input = target as HTMLInputElement;
+        const files = Array.from(input.files ?? []);
+        if (files.length === 0) return;
+        try {
+            const added: QuestionImage[] = [];
+            for (const file of files) added.push({ id: await storeImageFile(file) });
+            syncCurrentTestFromDOM();
+            const question = currentTest.questions[index];
+            question.images = [...(question.images ?? []), ...added];
+            renderEditableTest(currentTest);
+            reopenEditableQuestion(index);
+        } catch (error) {
+            reportStorageError('add this image', error);
+            input.value = '';
+        }
+    }
+});
+
 // Helper to save state from DOM to currentTest object without saving to LocalStorage yet
 function syncCurrentTestFromDOM() {
     if (!currentTest) return;
     const questionForms = editableQuestionsContainer.querySelectorAll('.editable-question-item');
     const updatedQuestions: Question[] = [];
+    const translationLanguage = translationLanguageFor(currentTest);
 
     questionForms.forEach((form, index) => {
         // Since we might delete items and re-render, the index in DOM matches currentTest structure *before* deletion
@@ -954,18 +4400,34 @@ function syncCurrentTestFromDOM() {
         const explanationText = (form.querySelector(`#q-exp-${index}`) as HTMLTextAreaElement).value;
         const subjectText = (form.querySelector(`#q-subject-${index}`) as HTMLInputElement).value;
         const topicText = (form.querySelector(`#q-topic-${index}`) as HTMLInputElement).value;
-        const answer = parseInt((form.querySelector(`input[name="q-answer-${index}"]:checked`) as HTMLInputElement)?.value ?? '0');
+        const type = (form.querySelector(`#q-type-${index}`) as HTMLSelectElement).value as QuestionType;
+        const difficulty = (form.querySelector(`#q-difficulty-${index}`) as HTMLSelectElement).value as DifficultyLevel | '';
+        const checked = Array.from(form.querySelectorAll(`input[name="q-answer-${index}"]:checked`))
+            .map(input => parseInt((input as HTMLInputElement).value, 10));
         
         const options = Array.from(form.querySelectorAll('.option-item input[type="text"]')).map(input => (input as HTMLInputElement).value);
         
-        updatedQuestions.push({
+        // Keep the bank ID and source; the type fields are re-read below
+        const question: Question = {
+            ...currentTest.questions[index],
             question: questionText,
             options,
-            answer,
+            answer: checked[0] ?? 0,
             explanation: explanationText,
             subject: subjectText,
-            topic: topicText
-        });
+            topic: topicText,
+            difficulty: difficulty || undefined
+        };
+        TYPED_QUESTION_FIELDS.forEach(field => delete question[field]);
+        const images = readQuestionImagesEditor(form);
+        question.images = images.length > 0 ? images : undefined;
+        const translation = readTranslationEditor(form, index, type);
+        // Only the language being edited changes; clearing it keeps the other stored translations
+        const translations = { ...question.translations };
+        if (translation) translations[translationLanguage] = translation;
+        else delete translations[translationLanguage];
+        question.translations = Object.keys(translations).length > 0 ? translations : undefined;
+        updatedQuestions.push({ ...question, ...readQuestionTypeFields(form, index, type, checked) });
     });
     currentTest.questions = updatedQuestions;
 }
@@ -999,41 +4461,189 @@ addQuestionBtn.addEventListener('click', () => {
 });
 
 
-saveTestBtn.addEventListener('click', () => {
+saveTestBtn.addEventListener('click', async () => {
+    if (!currentTest) return;
+    syncCurrentTestFromDOM();
+
+    const typeError = validateQuestionTypes(currentTest);
+    if (typeError) {
+        alert(`Please complete the question before saving. ${typeError}`);
+        return;
+    }
+    const sectionError = validateSections(currentTest);
+    if (sectionError) {
+        alert(`Please fix the sections before saving. ${sectionError}`);
+        return;
+    }
+    if (currentTest.sections) {
+        currentTest.duration = currentTest.sections.reduce((sum, s) => sum + s.duration, 0);
+    }
+
+    try {
+        // Check if test already exists (Update mode vs Create mode)
+        const existing = await getTest(currentTest.id);
+        await saveTest(currentTest);
+        alert(existing ? 'Test updated successfully!' : 'Test created successfully!');
+    } catch (error) {
+        reportStorageError('save this test', error);
+        return;
+    }
+    
+    renderAllTests();
+    showView(allTestsView);
+});
+
+
+// --- Test Sections ---
+// A sectioned test splits its questions, in order, into blocks with their own timer and marking. Only the
+// current section can be visited during an attempt, and submitting it (or running out of time) moves on for good.
+interface SectionRange {
+    section: TestSection;
+    start: number; // first question index
+    end: number; // one past the last question index
+}
+
+function sectionRanges(test: Test): SectionRange[] {
+    let start = 0;
+    return (test.sections || []).map(section => {
+        const range = { section, start, end: start + section.questionCount };
+        start = range.end;
+        return range;
+    });
+}
+
+function sectionIndexOf(test: Test, questionIndex: number): number {
+    return sectionRanges(test).findIndex(r => questionIndex >= r.start && questionIndex < r.end);
+}
+
+function marksFor(test: Test, questionIndex: number): { marks: number; negative: number } {
+    const section = test.sections?.[sectionIndexOf(test, questionIndex)];
+    return {
+        marks: section?.marksPerQuestion ?? (test.marksPerQuestion || 1),
+        negative: section?.negativeMarking ?? (test.negativeMarking || 0)
+    };
+}
+
+// The test cut down to the given question indices (in order); each section keeps only its own questions, and
+// sections left empty are dropped, so marksFor() still gives every kept question the marking it had
+function subsetTest(test: Test, indices: number[]): Test {
+    const sections = sectionRanges(test)
+        .map(({ section, start, end }) => ({ ...section, questionCount: indices.filter(i => i >= start && i < end).length }))
+        .filter(section => section.questionCount > 0);
+    return { ...test, questions: indices.map(i => test.questions[i]), sections: sections.length > 0 ? sections : undefined };
+}
+
+// Returns an error message, or null when the sections cover every question exactly once
+function validateSections(test: Test): string | null {
+    if (!test.sections || test.sections.length === 0) return null;
+    if (test.sections.some(s => !s.name.trim())) return 'Every section needs a name.';
+    if (test.sections.some(s => !Number.isInteger(s.questionCount) || s.questionCount < 1)) return 'Every section needs at least one question.';
+    if (test.sections.some(s => !(s.duration >= 1))) return 'Every section needs a time limit of at least 1 minute.';
+    const covered = test.sections.reduce((sum, s) => sum + s.questionCount, 0);
+    if (covered !== test.questions.length) {
+        return `The sections cover ${covered} questions but the test has ${test.questions.length}.`;
+    }
+    return null;
+}
+
+function renderSectionsEditor(test: Test) {
+    const sections = test.sections || [];
+    const covered = sections.reduce((sum, s) => sum + (s.questionCount || 0), 0);
+    sectionsCoverage.textContent = sections.length === 0
+        ? 'No sections: the whole test runs on one timer.'
+        : `Sections cover ${covered} of ${test.questions.length} questions, in order.`;
+    sectionsCoverage.classList.toggle('mismatch', sections.length > 0 && covered !== test.questions.length);
+
+    setHTML(sectionsList, sections.map((s, index) => html`
+        <div class="section-row" data-section-index="${index}">
+            <div>
+                <label>Name</label>
+                <input type="text" data-field="name" value="${s.name}">
+            </div>
+            <div>
+                <label>Questions</label>
+                <input type="number" data-field="questionCount" min="1" value="${s.questionCount}">
+            </div>
+            <div>
+                <label>Minutes</label>
+                <input type="number" data-field="duration" min="1" value="${s.duration}">
+            </div>
+            <div>
+                <label>Marks</label>
+                <input type="number" data-field="marksPerQuestion" min="0" step="0.01" value="${s.marksPerQuestion}">
+            </div>
+            <div>
+                <label>Negative</label>
+                <input type="number" data-field="negativeMarking" min="0" step="0.01" value="${s.negativeMarking}">
+            </div>
+            <button class="icon-btn delete-section" title="Remove Section">
+                <span class="material-symbols-outlined">delete</span>
+            </button>
+        </div>
+    `));
+}
+
+addSectionBtn.addEventListener('click', () => {
     if (!currentTest) return;
-    syncCurrentTestFromDOM();
+    const sections = currentTest.sections || [];
+    const covered = sections.reduce((sum, s) => sum + s.questionCount, 0);
+    sections.push({
+        name: `Section ${sections.length + 1}`,
+        questionCount: Math.max(1, currentTest.questions.length - covered),
+        duration: sections.length === 0 ? currentTest.duration : 10,
+        marksPerQuestion: currentTest.marksPerQuestion || 1,
+        negativeMarking: currentTest.negativeMarking || 0
+    });
+    currentTest.sections = sections;
+    renderSectionsEditor(currentTest);
+});
 
-    const tests = getFromStorage<Test[]>('tests', []);
-    
-    // Check if test already exists (Update mode vs Create mode)
-    const existingIndex = tests.findIndex(t => t.id === currentTest.id);
-    
-    if (existingIndex > -1) {
-        tests[existingIndex] = currentTest;
-        alert('Test updated successfully!');
+// Section edits go straight into currentTest, so re-rendering the editor never loses them
+sectionsList.addEventListener('input', e => {
+    const input = e.target as HTMLInputElement;
+    const row = input.closest('.section-row') as HTMLElement;
+    if (!currentTest?.sections || !row || !input.dataset.field) return;
+    const section = currentTest.sections[parseInt(row.dataset.sectionIndex, 10)];
+    const field = input.dataset.field as keyof TestSection;
+    if (field === 'name') {
+        section.name = input.value;
     } else {
-        tests.unshift(currentTest);
-        alert('Test created successfully!');
+        section[field] = parseFloat(input.value) || 0;
     }
-    
-    saveToStorage('tests', tests);
-    renderAllTests();
-    showView(allTestsView);
+    const covered = currentTest.sections.reduce((sum, s) => sum + (s.questionCount || 0), 0);
+    sectionsCoverage.textContent = `Sections cover ${covered} of ${currentTest.questions.length} questions, in order.`;
+    sectionsCoverage.classList.toggle('mismatch', covered !== currentTest.questions.length);
+});
+
+sectionsList.addEventListener('click', e => {
+    const deleteBtn = (e.target as HTMLElement).closest('.delete-section');
+    if (!deleteBtn || !currentTest?.sections) return;
+    const index = parseInt((deleteBtn.closest('.section-row') as HTMLElement).dataset.sectionIndex, 10);
+    currentTest.sections.splice(index, 1);
+    if (currentTest.sections.length === 0) delete currentTest.sections;
+    renderSectionsEditor(currentTest);
 });
 
 
 // --- All Tests & Test Detail Logic ---
-function renderAllTests() {
-    const tests = getFromStorage<Test[]>('tests', []);
+async function renderAllTests() {
+    let tests: Test[];
+    try {
+        tests = await getTests();
+    } catch (error) {
+        console.error("Error loading tests:", error);
+        setHTML(allTestsContainer, html`<p class="placeholder">Could not load your tests. ${error.message}</p>`);
+        return;
+    }
     if (tests.length === 0) {
-        allTestsContainer.innerHTML = `<p class="placeholder">You haven't saved any tests yet.</p>`;
+        setHTML(allTestsContainer, html`<p class="placeholder">You haven't saved any tests yet.</p>`);
         return;
     }
-    allTestsContainer.innerHTML = tests.map(test => {
+    setHTML(allTestsContainer, tests.map(test => {
         const dateObj = new Date(test.createdAt);
         const date = dateObj.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
         
-        return `
+        return html`
         <div class="saved-test-item" data-testid="${test.id}">
             <div>
                 <h3>${test.name}</h3>
@@ -1062,31 +4672,31 @@ function renderAllTests() {
                 </button>
             </div>
         </div>
-    `}).join('');
+    `}));
 }
 
-function handleDownloadTest(test: Test) {
-    const jsonString = JSON.stringify(test, null, 2); // Pretty print JSON
-    const blob = new Blob([jsonString], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
+async function handleDownloadTest(test: Test) {
+    const { owner, ...exportableTest } = test;
     
     // Sanitize file name
     const fileName = `test-${test.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.json`;
 
-    a.href = url;
-    a.download = fileName;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    try {
+        const images = await exportImages(test.questions);
+        const file = { ...exportableTest, schemaVersion: SCHEMA_VERSION };
+        downloadJSON(Object.keys(images).length > 0 ? { ...file, images } : file, fileName);
+    } catch (error) {
+        reportStorageError('read the images of this test', error);
+    }
 }
 
-function handleDeleteTest(testId: string) {
+async function handleDeleteTest(testId: string) {
     if (confirm("Are you sure you want to delete this test?")) {
-        let tests = getFromStorage<Test[]>('tests', []);
-        tests = tests.filter(t => t.id !== testId);
-        saveToStorage('tests', tests);
+        try {
+            await deleteTest(testId);
+        } catch (error) {
+            reportStorageError('delete this test', error);
+        }
         renderAllTests(); // Re-render the list
     }
 }
@@ -1095,6 +4705,7 @@ function handleEditTest(test: Test) {
     // Deep copy to ensure we don't mutate state unless saved
     currentTest = JSON.parse(JSON.stringify(test));
     renderEditableTest(currentTest);
+    renderValidationSummary(null);
     showView(editTestView);
 }
 
@@ -1107,12 +4718,12 @@ function handleImportTest(event: Event) {
     }
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
         try {
             const text = e.target?.result as string;
             if (!text) throw new Error("File is empty.");
 
-            const importedData = JSON.parse(text);
+            const { images, ...importedData } = JSON.parse(text);
 
             // Basic validation
             if (
@@ -1123,18 +4734,17 @@ function handleImportTest(event: Event) {
                 throw new Error("Invalid test file format. The file must contain a name, duration, and questions array.");
             }
 
+            const migrated = migrateTest(importedData, fileSchemaVersion(importedData));
             const newTest: Test = {
-                ...importedData,
+                ...migrated,
+                questions: withoutQuestionIds(migrated.questions),
                 id: `test_${Date.now()}`, // Assign a new unique ID
                 name: `${importedData.name} (Imported)`, // Mark as imported
-                createdAt: new Date().toISOString(), // Set new creation date
-                marksPerQuestion: importedData.marksPerQuestion || 1, // Default to 1 if missing in import
-                negativeMarking: importedData.negativeMarking || 0
+                createdAt: new Date().toISOString() // Set new creation date
             };
 
-            const tests = getFromStorage<Test[]>('tests', []);
-            tests.unshift(newTest);
-            saveToStorage('tests', tests);
+            await importImages(images);
+            await saveTest(newTest);
 
             alert(`Test "${newTest.name}" imported successfully!`);
             renderAllTests();
@@ -1157,14 +4767,13 @@ function handleImportTest(event: Event) {
 importTestBtn.addEventListener('click', () => importTestInput.click());
 importTestInput.addEventListener('change', handleImportTest);
 
-allTestsContainer.addEventListener('click', e => {
+allTestsContainer.addEventListener('click', async e => {
     const target = e.target as HTMLElement;
     const testItem = target.closest('.saved-test-item') as HTMLElement;
     if (!testItem) return;
 
     const testId = testItem.dataset.testid;
-    const tests = getFromStorage<Test[]>('tests', []);
-    const test = tests.find(t => t.id === testId);
+    const test = await getTest(testId);
     if (!test) return;
 
     // Handle clicks on specific buttons
@@ -1188,38 +4797,55 @@ allTestsContainer.addEventListener('click', e => {
 function renderTestDetail(test: Test) {
     currentTest = test;
     testDetailTitle.textContent = test.name;
-    testDetailContainer.innerHTML = test.questions.map((q, index) => `
+    setHTML(testDetailContainer, test.questions.map((q, index) => html`
         <div class="test-detail-item">
             <div class="question-header">
                 <p>Question ${index + 1}</p>
-                <span class="question-meta">${q.subject} > ${q.topic}</span>
+                <div class="question-header-badges">
+                    ${renderDifficultyBadge(q)}
+                    <span class="question-meta">${q.subject} > ${q.topic}</span>
+                </div>
             </div>
-            <p>${q.question}</p>
+            ${renderQuestionStem(q)}
             <ul class="detail-options">
-                ${q.options.map((opt, optIndex) => `
-                    <li class="detail-option-item ${q.answer === optIndex ? 'correct' : ''}">${opt}</li>
-                `).join('')}
+                ${q.options.map((opt, optIndex) => html`
+                    <li class="detail-option-item ${correctOptionIndices(q).includes(optIndex) ? 'correct' : ''}">${opt}</li>
+                `)}
             </ul>
             <div class="explanation-box">
                 <h4>Explanation</h4>
-                <p>${q.explanation}</p>
+                ${renderExplanationText(q.explanation)}
             </div>
         </div>
-    `).join('');
+    `));
+    loadQuestionImages(testDetailContainer);
 }
 
-testDetailActions.addEventListener('click', e => {
+testDetailActions.addEventListener('click', async e => {
     if (!currentTest) return;
     const target = e.target as HTMLElement;
 
     if (target.closest('#start-test-btn')) {
         startTest(currentTest);
     }
+    if (target.closest('#print-paper-btn')) {
+        printPaperModal.classList.remove('hidden');
+    }
+    if (target.closest('#export-questions-btn')) {
+        openQuestionExport(currentTest, `All ${currentTest.questions.length} question(s) of "${currentTest.name}".`);
+    }
+    if (target.closest('#item-analysis-btn')) {
+        await renderItemAnalysis(currentTest);
+        showView(itemAnalysisView);
+    }
     if (target.closest('#delete-test-btn')) {
         if (confirm(`Are you sure you want to delete the test "${currentTest.name}"? This action cannot be undone.`)) {
-            let tests = getFromStorage<Test[]>('tests', []);
-            tests = tests.filter(t => t.id !== currentTest.id);
-            saveToStorage('tests', tests);
+            try {
+                await deleteTest(currentTest.id);
+            } catch (error) {
+                reportStorageError('delete this test', error);
+                return;
+            }
             alert('Test deleted.');
             renderAllTests();
             showView(allTestsView);
@@ -1227,27 +4853,985 @@ testDetailActions.addEventListener('click', e => {
     }
 });
 
-// --- Test Attempt Logic ---
-function startTest(test: Test) {
+// --- Item Analysis ---
+// Classical test statistics for one saved test, over every attempt at it. Questions are matched across attempts by
+// bank ID (or fingerprint) and options by their text, so attempts taken before the test was edited still count.
+const DISCRIMINATION_GROUP_SHARE = 0.27; // share of attempts in each of the top and bottom groups
+const MIN_DISCRIMINATION_ATTEMPTS = 5;
+const LOW_DISCRIMINATION = 0.2;
+const HARD_FACILITY = 0.25;
+const EASY_FACILITY = 0.9;
+const UNUSED_DISTRACTOR_SHARE = 0.05;
+
+interface ItemFlag {
+    level: 'warning' | 'info';
+    message: string;
+}
+
+interface ItemStats {
+    question: Question;
+    responses: number; // attempts that included the question
+    correct: number;
+    unanswered: number;
+    facility: number; // share of responses answered correctly, 0–1
+    discrimination: number | null; // top group's facility minus the bottom group's; null with too few attempts
+    optionCounts: number[]; // responses that chose each option
+    upperOptionCounts: number[]; // the same, for the top group only
+    upperResponses: number;
+    averageTime: number; // in seconds, over answered responses
+    flags: ItemFlag[];
+}
+
+// The response to `question` in the attempt with its options re-pointed at the current test's options, or
+// undefined when the attempt didn't include the question or chose an option that no longer exists
+function matchItemResponse(question: Question, attempt: TestAttempt): { answer: UserAnswer; time: number } | undefined {
+    const index = attempt.fullTest.questions.findIndex(q => calibrationId(q) === calibrationId(question));
+    if (index === -1) return undefined;
+    const answer = attempt.userAnswers[index] ?? null;
+    const time = attempt.timePerQuestion[index] || 0;
+    if (answer === null) return { answer, time };
+
+    const optionKeys = question.options.map(normalizeQuestionText);
+    const takenOptions = attempt.fullTest.questions[index].options;
+    const remap = (i: number) => optionKeys.indexOf(normalizeQuestionText(takenOptions[i] ?? ''));
+    const mapped = Array.isArray(answer) ? answer.map(remap) : remap(answer);
+    if (Array.isArray(mapped) ? mapped.includes(-1) : mapped === -1) return undefined;
+    return { answer: mapped, time };
+}
+
+function itemFlags(stats: ItemStats): ItemFlag[] {
+    const flags: ItemFlag[] = [];
+    const correctIndices = correctOptionIndices(stats.question);
+    const leastChosenKey = Math.min(...correctIndices.map(i => stats.upperOptionCounts[i]));
+    const suspicious = stats.upperOptionCounts
+        .map((count, i) => ({ count, i }))
+        .filter(({ count, i }) => !correctIndices.includes(i) && count > leastChosenKey && count >= 2);
+    if (suspicious.length > 0) {
+        flags.push({
+            level: 'warning',
+            message: `Top scorers mostly chose ${suspicious.map(({ i }) => String.fromCharCode(65 + i)).join(', ')} over the key (${formatAnswerLetters(correctIndices.length > 1 ? correctIndices : correctIndices[0])}). Check the answer key.`
+        });
+    }
+    if (stats.discrimination !== null && stats.discrimination < 0) {
+        flags.push({ level: 'warning', message: 'Weaker candidates did better than stronger ones. The question may be ambiguous or miskeyed.' });
+    } else if (stats.discrimination !== null && stats.discrimination < LOW_DISCRIMINATION) {
+        flags.push({ level: 'info', message: 'Barely separates strong and weak candidates.' });
+    }
+    const enoughResponses = stats.responses >= MIN_DISCRIMINATION_ATTEMPTS;
+    if (enoughResponses && stats.facility < HARD_FACILITY) {
+        flags.push({ level: 'info', message: 'Very few attempts got this right.' });
+    } else if (enoughResponses && stats.facility > EASY_FACILITY) {
+        flags.push({ level: 'info', message: 'Almost every attempt got this right.' });
+    }
+    const answered = stats.responses - stats.unanswered;
+    const unused = stats.optionCounts
+        .map((count, i) => ({ count, i }))
+        .filter(({ count, i }) => !correctIndices.includes(i) && enoughResponses && answered > 0 && count / answered < UNUSED_DISTRACTOR_SHARE);
+    if (unused.length > 0) {
+        flags.push({ level: 'info', message: `Option${unused.length === 1 ? '' : 's'} ${unused.map(({ i }) => String.fromCharCode(65 + i)).join(', ')} ${unused.length === 1 ? 'was' : 'were'} hardly ever chosen.` });
+    }
+    return flags;
+}
+
+function analyzeItems(test: Test, attempts: TestAttempt[]): ItemStats[] {
+    const ranked = [...attempts].sort((a, b) => b.score - a.score);
+    const groupSize = Math.max(1, Math.round(ranked.length * DISCRIMINATION_GROUP_SHARE));
+    const upper = new Set(ranked.slice(0, groupSize));
+    const lower = new Set(ranked.slice(-groupSize));
+
+    return test.questions.map(question => {
+        const optionCounts = question.options.map(() => 0);
+        const upperOptionCounts = question.options.map(() => 0);
+        let responses = 0, correct = 0, unanswered = 0, totalTime = 0;
+        let upperResponses = 0, upperCorrect = 0, lowerResponses = 0, lowerCorrect = 0;
+
+        ranked.forEach(attempt => {
+            const response = matchItemResponse(question, attempt);
+            if (!response) return;
+            const isCorrect = isCorrectAnswer(question, response.answer);
+            responses++;
+            if (isCorrect) correct++;
+            if (upper.has(attempt)) {
+                upperResponses++;
+                if (isCorrect) upperCorrect++;
+            }
+            if (lower.has(attempt)) {
+                lowerResponses++;
+                if (isCorrect) lowerCorrect++;
+            }
+            if (response.answer === null) {
+                unanswered++;
+                return;
+            }
+            totalTime += response.time;
+            optionCounts.forEach((_, i) => {
+                if (!isOptionChosen(response.answer, i)) return;
+                optionCounts[i]++;
+                if (upper.has(attempt)) upperOptionCounts[i]++;
+            });
+        });
+
+        const answered = responses - unanswered;
+        const stats: ItemStats = {
+            question,
+            responses,
+            correct,
+            unanswered,
+            facility: responses > 0 ? correct / responses : 0,
+            discrimination: ranked.length >= MIN_DISCRIMINATION_ATTEMPTS && upperResponses > 0 && lowerResponses > 0
+                ? upperCorrect / upperResponses - lowerCorrect / lowerResponses
+                : null,
+            optionCounts,
+            upperOptionCounts,
+            upperResponses,
+            averageTime: answered > 0 ? totalTime / answered : 0,
+            flags: []
+        };
+        stats.flags = itemFlags(stats);
+        return stats;
+    });
+}
+
+function renderItemStats(stats: ItemStats, index: number): SafeHTML {
+    const correctIndices = correctOptionIndices(stats.question);
+    const answered = stats.responses - stats.unanswered;
+    const discriminationText = stats.discrimination === null ? '–' : stats.discrimination.toFixed(2);
+    return html`
+        <div class="item-analysis-item ${stats.flags.some(f => f.level === 'warning') ? 'flagged' : ''}">
+            <div class="question-header">
+                <p>Question ${index + 1}</p>
+                <div class="question-header-badges">
+                    ${renderDifficultyBadge(stats.question)}
+                    <span class="question-meta">${stats.question.subject} > ${stats.question.topic}</span>
+                </div>
+            </div>
+            <p class="item-analysis-question">${questionStemText(stats.question)}</p>
+            <div class="item-analysis-metrics">
+                <span class="stat-pill">Facility ${(stats.facility * 100).toFixed(0)}%</span>
+                <span class="stat-pill">Discrimination ${discriminationText}</span>
+                <span class="stat-pill">Avg. time ${stats.averageTime.toFixed(1)}s</span>
+                <span class="stat-pill">${stats.responses} attempt${stats.responses === 1 ? '' : 's'}, ${stats.unanswered} skipped</span>
+            </div>
+            <div class="item-analysis-options">
+                ${stats.question.options.map((option, i) => {
+                    const share = answered > 0 ? (stats.optionCounts[i] / answered) * 100 : 0;
+                    return html`
+                        <div class="item-option-row ${correctIndices.includes(i) ? 'correct' : ''}">
+                            <span class="item-option-label">${String.fromCharCode(65 + i)}</span>
+                            <span class="item-option-text">${option}</span>
+                            <div class="item-option-bar"><div style="width: ${share}%"></div></div>
+                            <span class="item-option-count" title="${stats.upperOptionCounts[i]} of the top group">${stats.optionCounts[i]} (${share.toFixed(0)}%)</span>
+                        </div>
+                    `;
+                })}
+            </div>
+            ${stats.flags.map(flag => html`
+                <p class="item-flag ${flag.level}">
+                    <span class="material-symbols-outlined">${flag.level === 'warning' ? 'warning' : 'info'}</span> ${flag.message}
+                </p>
+            `)}
+        </div>
+    `;
+}
+
+async function renderItemAnalysis(test: Test) {
+    itemAnalysisTitle.textContent = `Item Analysis: ${test.name}`;
+    let attempts: TestAttempt[];
+    try {
+        attempts = (await getAttempts()).filter(a => a.testId === test.id);
+    } catch (error) {
+        reportStorageError('load the attempts for this test', error);
+        return;
+    }
+    if (attempts.length === 0) {
+        setHTML(itemAnalysisSummary, html``);
+        setHTML(itemAnalysisContainer, html`<p class="placeholder">Nobody has attempted this test yet.</p>`);
+        return;
+    }
+
+    const items = analyzeItems(test, attempts);
+    const flagged = items.filter(item => item.flags.some(f => f.level === 'warning')).length;
+    const averageFacility = items.reduce((sum, item) => sum + item.facility, 0) / Math.max(1, items.length);
+    setHTML(itemAnalysisSummary, html`
+        <div class="stat-card">
+            <span class="material-symbols-outlined stat-icon">groups</span>
+            <div class="stat-value">${attempts.length}</div>
+            <div class="stat-label">Attempts</div>
+        </div>
+        <div class="stat-card">
+            <span class="material-symbols-outlined stat-icon">percent</span>
+            <div class="stat-value">${(averageFacility * 100).toFixed(0)}%</div>
+            <div class="stat-label">Avg. Facility</div>
+        </div>
+        <div class="stat-card">
+            <span class="material-symbols-outlined stat-icon" style="color: var(--warning-color);">report</span>
+            <div class="stat-value">${flagged}</div>
+            <div class="stat-label">Flagged Questions</div>
+        </div>
+        <div class="stat-card">
+            <span class="material-symbols-outlined stat-icon">insights</span>
+            <div class="stat-value">${attempts.length >= MIN_DISCRIMINATION_ATTEMPTS ? 'Yes' : 'No'}</div>
+            <div class="stat-label">Enough for Discrimination (${MIN_DISCRIMINATION_ATTEMPTS}+)</div>
+        </div>
+    `);
+    setHTML(itemAnalysisContainer, items.map((item, index) => renderItemStats(item, index)));
+}
+
+// --- Printable Question Paper ---
+// Builds a standalone HTML document with the question paper, answer key and OMR sheet for every set, to print or
+// save as PDF from the browser. Shuffled sets keep questions within their section and re-point the answers.
+const PAPER_SET_LABELS = ['A', 'B', 'C', 'D'];
+const OMR_ROWS_PER_COLUMN = 25;
+// Options that refer to their neighbours, or follow a fixed convention, keep their order when shuffling
+const ORDER_DEPENDENT_OPTION_PATTERN = /\b(all|none|both|either|neither) of the (above|these)\b|\bonly (one|two|three)\b|\b(1|2|3|A|B|C) (and|only)\b/i;
+
+interface PaperOptions {
+    sets: number;
+    shuffleQuestions: boolean;
+    shuffleOptions: boolean;
+    includeKey: boolean;
+    includeOMR: boolean;
+}
+
+interface PaperSet {
+    label: string;
+    questions: Question[]; // in the set's order, with options shuffled and answers re-pointed
+}
+
+function canShuffleOptions(q: Question): boolean {
+    const type = questionTypeOf(q);
+    return (type === 'single' || type === 'multiple') && !q.options.some(option => ORDER_DEPENDENT_OPTION_PATTERN.test(option));
+}
+
+// Translations are left out: the paper is printed in the test's language, and their options would be out of order
+function paperQuestion(q: Question, shuffleOptions: boolean): Question {
+    const { translations, ...question } = q;
+    if (!shuffleOptions || !canShuffleOptions(q)) return question;
+    const order = shuffle(q.options.map((_, i) => i));
+    const newIndex = (oldIndex: number) => order.indexOf(oldIndex);
+    return {
+        ...question,
+        options: order.map(i => q.options[i]),
+        answer: newIndex(q.answer),
+        ...(q.answers ? { answers: q.answers.map(newIndex).sort((a, b) => a - b) } : {})
+    };
+}
+
+function buildPaperSets(test: Test, options: PaperOptions): PaperSet[] {
+    const ranges = test.sections ? sectionRanges(test) : [{ start: 0, end: test.questions.length }];
+    return PAPER_SET_LABELS.slice(0, options.sets).map(label => {
+        const ordered = ranges.flatMap(range => {
+            const block = test.questions.slice(range.start, range.end);
+            return options.shuffleQuestions ? shuffle(block) : block;
+        });
+        return { label, questions: ordered.map(q => paperQuestion(q, options.shuffleOptions)) };
+    });
+}
+
+function paperInstructions(test: Test): SafeHTML {
+    const hasMultiple = test.questions.some(q => questionTypeOf(q) === 'multiple');
+    const marking = test.sections
+        ? sectionRanges(test).map(range => html`<li><strong>${range.section.name}</strong> (Questions ${range.start + 1}–${range.end}, ${range.section.duration} minutes): ${range.section.marksPerQuestion} mark(s) for each correct answer, ${range.section.negativeMarking} deducted for each wrong answer.</li>`)
+        : html`<li>Each correct answer carries ${test.marksPerQuestion} mark(s). ${test.negativeMarking > 0 ? html`${test.negativeMarking} mark(s) will be deducted for each wrong answer.` : 'There is no negative marking.'}</li>`;
+    return html`
+        <ol class="paper-instructions">
+            <li>This paper contains ${test.questions.length} questions. Time allowed: ${test.duration} minutes.</li>
+            ${marking}
+            <li>Unanswered questions carry no marks and no penalty.</li>
+            <li>Mark your answers on the OMR sheet by completely darkening one bubble per question.${hasMultiple ? ' For questions marked "one or more correct", darken every correct bubble; they score only if all are correct.' : ''}</li>
+            <li>Write your name, roll number and the question paper set on the OMR sheet before you begin.</li>
+            <li>The qualifying score is ${qualifyingPercentFor(test)}%.</li>
+        </ol>
+    `;
+}
+
+function renderPaperHeader(test: Test, set: PaperSet, title: string, showSet: boolean): SafeHTML {
+    return html`
+        <header class="paper-header">
+            <h1>${test.name}</h1>
+            <div class="paper-subtitle">
+                <span>${title}</span>
+                ${showSet ? html`<span class="paper-set">Set ${set.label}</span>` : ''}
+            </div>
+            <div class="paper-meta">
+                <span>Time: ${test.duration} minutes</span>
+                <span>Questions: ${test.questions.length}</span>
+                <span>Maximum marks: ${test.questions.reduce((sum, _, i) => sum + marksFor(test, i).marks, 0)}</span>
+            </div>
+        </header>
+    `;
+}
+
+function renderQuestionPaper(test: Test, set: PaperSet, showSet: boolean): SafeHTML {
+    const sectionStarts = new Map(sectionRanges(test).map(range => [range.start, range.section.name]));
+    return html`
+        <section class="paper-page">
+            ${renderPaperHeader(test, set, 'Question Paper', showSet)}
+            <h2>Instructions</h2>
+            ${paperInstructions(test)}
+            ${set.questions.map((q, index) => html`
+                ${sectionStarts.has(index) ? html`<h2 class="paper-section">${sectionStarts.get(index)}</h2>` : ''}
+                <div class="paper-question">
+                    <div class="paper-question-number">${index + 1}.</div>
+                    <div class="paper-question-body">
+                        ${questionTypeOf(q) === 'multiple' ? html`<p class="paper-note">(One or more correct)</p>` : ''}
+                        ${renderQuestionStem(q)}
+                        <ol class="paper-options">
+                            ${q.options.map((option, i) => html`<li><span>(${String.fromCharCode(97 + i)})</span> ${option}</li>`)}
+                        </ol>
+                    </div>
+                </div>
+            `)}
+        </section>
+    `;
+}
+
+function renderAnswerKey(test: Test, set: PaperSet, showSet: boolean): SafeHTML {
+    return html`
+        <section class="paper-page">
+            ${renderPaperHeader(test, set, 'Answer Key', showSet)}
+            <table class="paper-key-grid">
+                <tbody>
+                    ${Array.from({ length: Math.ceil(set.questions.length / 10) }, (_, row) => html`
+                        <tr>${set.questions.slice(row * 10, row * 10 + 10).map((q, i) => html`
+                            <td><strong>${row * 10 + i + 1}</strong> ${formatAnswerLetters(correctOptionIndices(q)).toLowerCase()}</td>
+                        `)}</tr>
+                    `)}
+                </tbody>
+            </table>
+            <h2>Explanations</h2>
+            ${set.questions.map((q, index) => html`
+                <div class="paper-explanation">
+                    <p><strong>${index + 1}. Answer (${formatAnswerLetters(correctOptionIndices(q)).toLowerCase()})</strong> ${questionStemText(q).split('\n')[0]}</p>
+                    ${renderExplanationText(q.explanation)}
+                </div>
+            `)}
+        </section>
+    `;
+}
+
+function renderOMRSheet(test: Test, set: PaperSet, showSet: boolean): SafeHTML {
+    const optionCount = Math.max(...set.questions.map(q => q.options.length));
+    const bubbles = (count: number, labelOf: (i: number) => string) =>
+        Array.from({ length: count }, (_, i) => html`<span class="omr-bubble">${labelOf(i)}</span>`);
+    const columns = Array.from({ length: Math.ceil(set.questions.length / OMR_ROWS_PER_COLUMN) }, (_, column) => html`
+        <div class="omr-column">
+            ${set.questions.slice(column * OMR_ROWS_PER_COLUMN, (column + 1) * OMR_ROWS_PER_COLUMN).map((_, i) => html`
+                <div class="omr-row">
+                    <span class="omr-number">${column * OMR_ROWS_PER_COLUMN + i + 1}</span>
+                    ${bubbles(optionCount, b => String.fromCharCode(97 + b))}
+                </div>
+            `)}
+        </div>
+    `);
+    return html`
+        <section class="paper-page">
+            ${renderPaperHeader(test, set, 'OMR Answer Sheet', showSet)}
+            <div class="omr-details">
+                <div class="omr-field">Name<span></span></div>
+                <div class="omr-field">Roll number<span></span></div>
+                <div class="omr-field">Signature<span></span></div>
+                ${showSet ? html`<div class="omr-field">Question paper set ${bubbles(PAPER_SET_LABELS.length, i => PAPER_SET_LABELS[i])}</div>` : ''}
+            </div>
+            <p class="paper-note">Use a black or blue ball-point pen. Darken the bubble completely; do not tick or cross.</p>
+            <div class="omr-grid">${columns}</div>
+        </section>
+    `;
+}
+
+const PAPER_STYLES = `
+    body { font-family: Georgia, 'Times New Roman', serif; color: #111; margin: 0; background: #fff; }
+    .paper-page { padding: 12mm 14mm; break-after: page; }
+    .paper-page:last-child { break-after: auto; }
+    .paper-header { text-align: center; border-bottom: 2px solid #111; padding-bottom: 6px; margin-bottom: 12px; }
+    .paper-header h1 { font-size: 20px; margin: 0 0 4px; }
+    .paper-subtitle { display: flex; justify-content: center; gap: 16px; font-weight: bold; text-transform: uppercase; }
+    .paper-set { border: 2px solid #111; padding: 0 8px; }
+    .paper-meta { display: flex; justify-content: space-between; font-size: 13px; margin-top: 6px; }
+    h2 { font-size: 15px; margin: 14px 0 6px; text-transform: uppercase; }
+    .paper-instructions { font-size: 13px; margin: 0 0 12px; padding-left: 20px; }
+    .paper-section { border-bottom: 1px solid #111; }
+    .paper-question { display: flex; gap: 8px; margin-bottom: 12px; break-inside: avoid; font-size: 14px; }
+    .paper-question-number { font-weight: bold; min-width: 26px; }
+    .paper-question-body { flex: 1; }
+    .paper-question-body p, .paper-explanation p { margin: 0 0 4px; white-space: pre-wrap; }
+    .paper-options { list-style: none; padding: 0; margin: 4px 0 0; display: grid; grid-template-columns: 1fr 1fr; gap: 2px 16px; }
+    .paper-options span { font-weight: bold; margin-right: 4px; }
+    .paper-note { font-size: 12px; font-style: italic; margin: 0 0 4px; }
+    .question-statements { margin: 4px 0; padding-left: 22px; }
+    .match-table, .md-table { border-collapse: collapse; margin: 6px 0; font-size: 13px; }
+    .match-table th, .match-table td, .md-table th, .md-table td { border: 1px solid #444; padding: 3px 8px; text-align: left; }
+    .question-images { display: flex; flex-wrap: wrap; gap: 8px; margin: 6px 0; }
+    .question-image { margin: 0; }
+    .question-image img { max-width: 100%; max-height: 260px; }
+    .question-image figcaption { font-size: 12px; text-align: center; }
+    .paper-key-grid { border-collapse: collapse; width: 100%; font-size: 13px; margin-bottom: 12px; }
+    .paper-key-grid td { border: 1px solid #444; padding: 4px 6px; }
+    .paper-explanation { margin-bottom: 10px; font-size: 13px; break-inside: avoid; }
+    .omr-details { display: grid; grid-template-columns: 1fr 1fr; gap: 10px 20px; margin-bottom: 10px; font-size: 13px; }
+    .omr-field { display: flex; align-items: center; gap: 6px; }
+    .omr-field span:not(.omr-bubble) { flex: 1; border-bottom: 1px solid #111; height: 18px; }
+    .omr-grid { display: flex; gap: 24px; flex-wrap: wrap; }
+    .omr-column { border: 1px solid #111; padding: 6px 10px; }
+    .omr-row { display: flex; align-items: center; gap: 6px; padding: 2px 0; }
+    .omr-number { width: 26px; text-align: right; font-size: 12px; font-weight: bold; }
+    .omr-bubble { display: inline-flex; align-items: center; justify-content: center; width: 16px; height: 16px; border: 1px solid #111; border-radius: 50%; font-size: 10px; font-family: Arial, sans-serif; }
+    @media print { .paper-page { padding: 0; } @page { margin: 12mm; } }
+`;
+
+async function buildPaperDocument(test: Test, options: PaperOptions): Promise<string> {
+    const sets = buildPaperSets(test, options);
+    const showSet = sets.length > 1;
+    const container = document.createElement('div');
+    setHTML(container, sets.map(set => html`
+        ${renderQuestionPaper(test, set, showSet)}
+        ${options.includeKey ? renderAnswerKey(test, set, showSet) : ''}
+        ${options.includeOMR ? renderOMRSheet(test, set, showSet) : ''}
+    `));
+    // Images are embedded so the file prints the same anywhere
+    const images = await exportImages(test.questions);
+    container.querySelectorAll<HTMLImageElement>('img[data-image-id]').forEach(img => {
+        const dataURL = images[img.dataset.imageId];
+        if (dataURL) img.src = dataURL;
+        else img.closest('.question-image')?.remove();
+    });
+    return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>${escapeHTML(test.name)}</title><style>${PAPER_STYLES}</style></head><body>${container.innerHTML}</body></html>`;
+}
+
+function readPaperOptions(): PaperOptions {
+    return {
+        sets: parseInt(paperSetCountSelect.value, 10) || 1,
+        shuffleQuestions: paperShuffleQuestionsInput.checked,
+        shuffleOptions: paperShuffleOptionsInput.checked,
+        includeKey: paperIncludeKeyInput.checked,
+        includeOMR: paperIncludeOMRInput.checked
+    };
+}
+
+async function exportPaper(print: boolean) {
+    if (!currentTest) return;
+    const test = currentTest;
+    let documentHTML: string;
+    try {
+        documentHTML = await buildPaperDocument(test, readPaperOptions());
+    } catch (error) {
+        reportStorageError('read the images of this test', error);
+        return;
+    }
+    const blob = new Blob([documentHTML], { type: 'text/html;charset=utf-8' });
+    if (!print) {
+        downloadBlob(blob, `paper-${test.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.html`);
+        printPaperModal.classList.add('hidden');
+        return;
+    }
+    const url = URL.createObjectURL(blob);
+    const printWindow = window.open(url, '_blank');
+    if (!printWindow) {
+        URL.revokeObjectURL(url);
+        showToast("The print window was blocked. Allow pop-ups, or download the paper instead.", "warning");
+        return;
+    }
+    printWindow.addEventListener('load', () => {
+        printWindow.print();
+        URL.revokeObjectURL(url);
+    });
+    printPaperModal.classList.add('hidden');
+}
+
+closePrintPaperBtn.addEventListener('click', () => printPaperModal.classList.add('hidden'));
+printPaperModal.addEventListener('click', e => {
+    if (e.target === printPaperModal) printPaperModal.classList.add('hidden');
+});
+downloadPaperBtn.addEventListener('click', () => exportPaper(false));
+openPaperBtn.addEventListener('click', () => exportPaper(true));
+
+// --- Question Export (Anki, GIFT, QTI) ---
+// A test, or the mistakes of one attempt, can be taken to other study tools: an Anki deck (tab-separated notes
+// with Front, Back and Tags), a Moodle GIFT file, or an IMS QTI 2.1 content package. Explanations go with each
+// question, and subject and topic become tags (Anki and QTI) or the question category (GIFT).
+type ExportFormat = 'anki' | 'gift' | 'qti';
+
+interface ZipFile {
+    path: string;
+    data: Uint8Array;
+}
+
+const EXPORT_FORMAT_HINTS: Record<ExportFormat, string> = {
+    anki: 'A tab-separated text file. In Anki choose File > Import; each question becomes a Basic note with the options on the front and the answer and explanation on the back, tagged with its subject and topic.',
+    gift: 'A GIFT text file for Moodle (Question bank > Import > GIFT format). Questions are filed under Subject/Topic categories and tagged; the explanation is kept as general feedback.',
+    qti: 'An IMS QTI 2.1 package (.zip) for learning platforms such as Canvas, Blackboard or TAO, with images and marking included. Subject and topic are recorded as keywords.'
+};
+
+let questionExport: Test | null = null; // the test, or a test holding just an attempt's mistakes
+
+function exportFileName(name: string, suffix: string): string {
+    return `${name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}-${suffix}`;
+}
+
+function exportTags(q: Question): string[] {
+    return [q.subject, q.topic].map(tag => tag?.trim()).filter(Boolean);
+}
+
+// Anki
+
+// Tags can't contain spaces; "Polity::Fundamental_Rights" keeps the topic under its subject in Anki's tag tree
+function ankiTags(q: Question): string {
+    const [subject, topic] = [q.subject, q.topic].map(tag => (tag ?? '').trim().replace(/\s+/g, '_'));
+    return [subject, subject && topic && topic !== subject ? `${subject}::${topic}` : topic].filter(Boolean).join(' ');
+}
+
+function ankiField(markup: SafeHTML | string): string {
+    const text = (typeof markup === 'string' ? markup : markup.__html).replace(/\s*[\r\n\t]\s*/g, ' ').trim();
+    return `"${text.replace(/"/g, '""')}"`;
+}
+
+function buildAnkiDeck(test: Test): string {
+    const header = ['#separator:tab', '#html:true', '#notetype:Basic', `#deck:${test.name.replace(/[\r\n]/g, ' ')}`, '#tags column:3'];
+    const notes = test.questions.map(q => {
+        const correct = correctOptionIndices(q);
+        const front = html`
+            ${renderQuestionBody(q)}
+            <ol type="A">${q.options.map(option => html`<li>${option}</li>`)}</ol>
+            ${questionTypeOf(q) === 'multiple' ? html`<p><em>More than one option may be correct.</em></p>` : ''}`;
+        const back = html`
+            <p><strong>Answer: ${formatAnswerLetters(correct)}</strong> – ${correct.map(i => q.options[i]).join('; ')}</p>
+            ${renderExplanationText(q.explanation)}`;
+        return [ankiField(front), ankiField(back), ankiField(ankiTags(q))].join('\t');
+    });
+    return [...header, ...notes].join('\n') + '\n';
+}
+
+// GIFT
+
+function escapeGift(text: string): string {
+    return (text ?? '').trim().replace(/([~=#{}:])/g, '\\$1').replace(/\r?\n/g, '\\n');
+}
+
+// Moodle only accepts certain partial-credit weights; 100, 50, 33.33333 and 25 are among them
+function giftWeight(correctCount: number): string {
+    return String(Math.round(10000000 / correctCount) / 100000);
+}
+
+function buildGift(test: Test): string {
+    const blocks: string[] = [`// ${test.name}`, `// Exported ${new Date().toISOString()}`];
+    let category = '';
+    test.questions.forEach((q, index) => {
+        const path = ['$course$', ...[q.subject, q.topic].map(part => (part ?? '').trim().replace(/\//g, '-')).filter(Boolean)].join('/');
+        if (path !== category) {
+            blocks.push(`$CATEGORY: ${path}`);
+            category = path;
+        }
+        const correct = correctOptionIndices(q);
+        const multiple = questionTypeOf(q) === 'multiple';
+        const answers = q.options.map((option, i) => {
+            if (!multiple) return `\t${correct.includes(i) ? '=' : '~'}${escapeGift(option)}`;
+            return `\t~%${correct.includes(i) ? giftWeight(correct.length) : '-100'}%${escapeGift(option)}`;
+        });
+        const tags = exportTags(q).map(tag => `[tag:${tag.replace(/[[\]]/g, '')}]`).join(' ');
+        blocks.push([
+            ...(tags ? [`// ${tags}`] : []),
+            `::Q${index + 1}:: ${escapeGift(questionStemText(q))} {`,
+            ...answers,
+            ...(q.explanation ? [`\t####${escapeGift(q.explanation)}`] : []),
+            '}'
+        ].join('\n'));
+    });
+    return blocks.join('\n\n') + '\n';
+}
+
+// QTI 2.1
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA_LOCATION = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+
+function xmlDocument(markup: SafeHTML): Uint8Array {
+    return new TextEncoder().encode(`<?xml version="1.0" encoding="UTF-8"?>\n${markup.__html.trim()}\n`);
+}
+
+// Text as paragraphs; Markdown tables stay as text, since QTI item bodies are strict XHTML
+function qtiParagraphs(text: string): SafeHTML[] {
+    return (text ?? '').split(/\n+/).map(line => line.trim()).filter(Boolean).map(line => html`<p>${line}</p>`);
+}
+
+function qtiScore(value: number): SafeHTML {
+    return html`<setOutcomeValue identifier="SCORE"><baseValue baseType="float">${value}</baseValue></setOutcomeValue>`;
+}
+
+function buildQTIItem(test: Test, index: number, identifier: string, imagePaths: Map<string, string>): SafeHTML {
+    const q = test.questions[index];
+    const multiple = questionTypeOf(q) === 'multiple';
+    const { marks, negative } = marksFor(test, index);
+    const images = (q.images ?? []).filter(image => imagePaths.has(image.id));
+    return html`
+<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}"
+    identifier="${identifier}" title="${`Q${index + 1}: ${q.topic || q.subject || test.name}`}" adaptive="false" timeDependent="false">
+    <responseDeclaration identifier="RESPONSE" cardinality="${multiple ? 'multiple' : 'single'}" baseType="identifier">
+        <correctResponse>${correctOptionIndices(q).map(i => html`<value>${String.fromCharCode(65 + i)}</value>`)}</correctResponse>
+    </responseDeclaration>
+    <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float" normalMaximum="${marks}"/>
+    <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+    <itemBody>
+        ${qtiParagraphs(questionStemText(q))}
+        ${images.map(image => html`<p><img src="${imagePaths.get(image.id)}" alt="${image.caption || 'Question image'}"/></p>`)}
+        <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multiple ? 0 : 1}">
+            ${q.options.map((option, i) => html`<simpleChoice identifier="${String.fromCharCode(65 + i)}">${option}</simpleChoice>`)}
+        </choiceInteraction>
+    </itemBody>
+    <responseProcessing>
+        <responseCondition>
+            <responseIf>
+                <isNull><variable identifier="RESPONSE"/></isNull>
+                ${qtiScore(0)}
+            </responseIf>
+            <responseElseIf>
+                <match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>
+                ${qtiScore(marks)}
+            </responseElseIf>
+            <responseElse>
+                ${qtiScore(-negative)}
+            </responseElse>
+        </responseCondition>
+        <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>
+    </responseProcessing>
+    <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show" title="Explanation">
+        ${qtiParagraphs(q.explanation)}
+    </modalFeedback>
+</assessmentItem>`;
+}
+
+function buildQTITest(test: Test, itemIds: string[]): SafeHTML {
+    const ranges = sectionRanges(test);
+    const sections = ranges.length > 0
+        ? ranges.map((range, i) => ({ id: `SECTION-${i + 1}`, title: range.section.name, items: itemIds.slice(range.start, range.end) }))
+        : [{ id: 'SECTION-1', title: test.name, items: itemIds }];
+    return html`
+<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}"
+    identifier="TEST" title="${test.name}">
+    <testPart identifier="PART-1" navigationMode="nonlinear" submissionMode="simultaneous">
+        ${sections.map(section => html`
+        <assessmentSection identifier="${section.id}" title="${section.title}" visible="true">
+            ${section.items.map(id => html`<assessmentItemRef identifier="${id}" href="${id}.xml"/>`)}
+        </assessmentSection>`)}
+    </testPart>
+</assessmentTest>`;
+}
+
+function buildQTIManifest(test: Test, itemIds: string[], imagePaths: Map<string, string>): SafeHTML {
+    return html`
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+    identifier="${`MANIFEST-${test.id}`}"
+    xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd http://ltsc.ieee.org/xsd/LOM http://www.imsglobal.org/xsd/imsmd_loose_v1p3p2.xsd">
+    <metadata>
+        <schema>QTIv2.1 Package</schema>
+        <schemaversion>1.0.0</schemaversion>
+    </metadata>
+    <organizations/>
+    <resources>
+        <resource identifier="TEST" type="imsqti_test_xmlv2p1" href="assessment.xml">
+            <file href="assessment.xml"/>
+            ${itemIds.map(id => html`<dependency identifierref="${id}"/>`)}
+        </resource>
+        ${test.questions.map((q, i) => html`
+        <resource identifier="${itemIds[i]}" type="imsqti_item_xmlv2p1" href="${itemIds[i]}.xml">
+            <metadata>
+                <imsmd:lom>
+                    <imsmd:general>
+                        <imsmd:title><imsmd:string>${`Q${i + 1}: ${q.topic || q.subject || test.name}`}</imsmd:string></imsmd:title>
+                        ${exportTags(q).map(tag => html`<imsmd:keyword><imsmd:string>${tag}</imsmd:string></imsmd:keyword>`)}
+                    </imsmd:general>
+                </imsmd:lom>
+            </metadata>
+            <file href="${itemIds[i]}.xml"/>
+            ${(q.images ?? []).filter(image => imagePaths.has(image.id)).map(image => html`<file href="${imagePaths.get(image.id)}"/>`)}
+        </resource>`)}
+    </resources>
+</manifest>`;
+}
+
+async function buildQTIPackage(test: Test): Promise<Blob> {
+    const files: ZipFile[] = [];
+    const imagePaths = new Map<string, string>();
+    for (const id of new Set(test.questions.flatMap(q => q.images?.map(image => image.id) ?? []))) {
+        const blob = await getImage(id);
+        if (!blob) continue;
+        const path = `images/${id.replace(/[^a-z0-9_-]/gi, '_')}.${(blob.type.split('/')[1] || 'png').replace('jpeg', 'jpg').replace(/\W.*$/, '')}`;
+        imagePaths.set(id, path);
+        files.push({ path, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+    const itemIds = test.questions.map((_, i) => `ITEM-${String(i + 1).padStart(3, '0')}`);
+    itemIds.forEach((id, i) => files.push({ path: `${id}.xml`, data: xmlDocument(buildQTIItem(test, i, id, imagePaths)) }));
+    files.push({ path: 'assessment.xml', data: xmlDocument(buildQTITest(test, itemIds)) });
+    files.push({ path: 'imsmanifest.xml', data: xmlDocument(buildQTIManifest(test, itemIds, imagePaths)) });
+    return createZip(files);
+}
+
+// A zip with uncompressed entries, which is all a content package needs
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of data) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createZip(files: ZipFile[]): Blob {
+    const now = new Date();
+    const time = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+    const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+    const parts: Uint8Array[] = [];
+    const directory: Uint8Array[] = [];
+    let offset = 0;
+
+    files.forEach(file => {
+        const name = new TextEncoder().encode(file.path);
+        const crc = crc32(file.data);
+        // Fields shared by the local header (from offset 4) and the central directory entry (from offset 6)
+        const writeCommon = (view: DataView, at: number) => {
+            view.setUint16(at, 20, true); // version needed
+            view.setUint16(at + 2, 0x0800, true); // UTF-8 names
+            view.setUint16(at + 4, 0, true); // stored
+            view.setUint16(at + 6, time, true);
+            view.setUint16(at + 8, date, true);
+            view.setUint32(at + 10, crc, true);
+            view.setUint32(at + 14, file.data.length, true);
+            view.setUint32(at + 18, file.data.length, true);
+            view.setUint16(at + 22, name.length, true);
+        };
+
+        const local = new Uint8Array(30 + name.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        writeCommon(localView, 4);
+        local.set(name, 30);
+
+        const entry = new Uint8Array(46 + name.length);
+        const entryView = new DataView(entry.buffer);
+        entryView.setUint32(0, 0x02014b50, true);
+        entryView.setUint16(4, 20, true); // version made by
+        writeCommon(entryView, 6);
+        entryView.setUint32(42, offset, true);
+        entry.set(name, 46);
+
+        parts.push(local, file.data);
+        directory.push(entry);
+        offset += local.length + file.data.length;
+    });
+
+    const directorySize = directory.reduce((sum, entry) => sum + entry.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, files.length, true);
+    endView.setUint16(10, files.length, true);
+    endView.setUint32(12, directorySize, true);
+    endView.setUint32(16, offset, true);
+    return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+}
+
+// Export dialog
+
+function openQuestionExport(test: Test, description: string) {
+    questionExport = test;
+    exportQuestionsDescription.textContent = description;
+    exportFormatHint.textContent = EXPORT_FORMAT_HINTS[exportFormatSelect.value as ExportFormat];
+    exportQuestionsModal.classList.remove('hidden');
+}
+
+async function handleExportQuestions() {
+    if (!questionExport) return;
+    const test = questionExport;
+    const format = exportFormatSelect.value as ExportFormat;
+    try {
+        if (format === 'anki') {
+            downloadBlob(new Blob([buildAnkiDeck(test)], { type: 'text/plain;charset=utf-8' }), exportFileName(test.name, 'anki.txt'));
+        } else if (format === 'gift') {
+            downloadBlob(new Blob([buildGift(test)], { type: 'text/plain;charset=utf-8' }), exportFileName(test.name, 'gift.txt'));
+        } else {
+            downloadBlob(await buildQTIPackage(test), exportFileName(test.name, 'qti.zip'));
+        }
+    } catch (error) {
+        reportStorageError('read the images of these questions', error);
+        return;
+    }
+    exportQuestionsModal.classList.add('hidden');
+}
+
+exportFormatSelect.addEventListener('change', () => {
+    exportFormatHint.textContent = EXPORT_FORMAT_HINTS[exportFormatSelect.value as ExportFormat];
+});
+closeExportQuestionsBtn.addEventListener('click', () => exportQuestionsModal.classList.add('hidden'));
+exportQuestionsModal.addEventListener('click', e => {
+    if (e.target === exportQuestionsModal) exportQuestionsModal.classList.add('hidden');
+});
+downloadExportBtn.addEventListener('click', handleExportQuestions);
+
+
+// --- Test Attempt Logic ---
+async function startTest(test: Test) {
+    let checkpoint: AttemptCheckpoint | null = null;
+    try {
+        checkpoint = await getAttemptCheckpoint();
+    } catch (error) {
+        console.error("Error loading attempt checkpoint:", error);
+    }
+
+    if (checkpoint) {
+        if (checkpoint.test.id === test.id) {
+            if (await promptResumeAttempt(checkpoint)) {
+                resumeAttempt(checkpoint);
+                return;
+            }
+        } else if (!confirm(`You have an unfinished attempt of "${checkpoint.test.name}". Starting this test will discard it. Continue?`)) {
+            return;
+        }
+        await clearAttemptCheckpoint();
+    }
+
+    beginAttempt(test);
+}
+
+function beginAttempt(test: Test) {
     currentTest = test;
     currentQuestionIndex = 0;
     userAnswers = Array(test.questions.length).fill(null);
     questionStatuses = Array(test.questions.length).fill('notVisited');
     questionStatuses[0] = 'notAnswered';
-    timeRemaining = test.duration * 60;
+    currentSectionIndex = 0;
+    sectionTimes = (test.sections || []).map(() => 0);
+    timeRemaining = (test.sections ? test.sections[0].duration : test.duration) * 60;
     timePerQuestion = Array(test.questions.length).fill(0);
     questionStartTime = Date.now();
+    attemptLanguage = test.language;
 
     attemptTestTitle.textContent = test.name;
+    timeLeftEl.textContent = formatTimeLeft(timeRemaining);
+    updateLanguageToggle();
     
     renderQuestionForAttempt();
     updatePalette();
+    updateSubmitLabel();
+    startTimer();
+    showView(testAttemptView);
+    saveAttemptCheckpoint();
+}
+
+function resumeAttempt(checkpoint: AttemptCheckpoint) {
+    currentTest = checkpoint.test;
+    currentQuestionIndex = checkpoint.currentQuestionIndex;
+    userAnswers = checkpoint.userAnswers;
+    questionStatuses = checkpoint.questionStatuses;
+    timeRemaining = checkpoint.timeRemaining;
+    timePerQuestion = checkpoint.timePerQuestion;
+    currentSectionIndex = checkpoint.currentSectionIndex ?? 0;
+    sectionTimes = checkpoint.sectionTimes ?? (checkpoint.test.sections || []).map(() => 0);
+    questionStartTime = Date.now();
+    attemptLanguage = checkpoint.language ?? checkpoint.test.language;
+
+    attemptTestTitle.textContent = checkpoint.test.name;
+    timeLeftEl.textContent = formatTimeLeft(timeRemaining);
+    updateLanguageToggle();
+
+    renderQuestionForAttempt();
+    updatePalette();
+    updateSubmitLabel();
     startTimer();
     showView(testAttemptView);
+    showToast("Attempt resumed where you left off.", "success");
+}
+
+// --- Attempt Checkpoints ---
+let checkpointErrorShown = false;
+
+function getAttemptCheckpoint(): Promise<AttemptCheckpoint | null> {
+    return getSetting<AttemptCheckpoint | null>(userKey('attemptCheckpoint'), null);
+}
+
+function saveAttemptCheckpoint() {
+    if (!currentTest || !currentUser) return;
+
+    // Include the time spent so far on the question currently on screen
+    const timeSnapshot = [...timePerQuestion];
+    timeSnapshot[currentQuestionIndex] += (Date.now() - questionStartTime) / 1000;
+
+    const checkpoint: AttemptCheckpoint = {
+        test: currentTest,
+        currentQuestionIndex,
+        userAnswers: [...userAnswers],
+        questionStatuses: [...questionStatuses],
+        timeRemaining,
+        timePerQuestion: timeSnapshot,
+        currentSectionIndex,
+        sectionTimes: [...sectionTimes],
+        language: attemptLanguage,
+        savedAt: new Date().toISOString()
+    };
+
+    saveSetting(userKey('attemptCheckpoint'), checkpoint)
+        .then(() => { checkpointErrorShown = false; })
+        .catch(error => {
+            console.error("Error saving attempt checkpoint:", error);
+            // The timer ticks every second; warn once rather than on every tick
+            if (!checkpointErrorShown) {
+                checkpointErrorShown = true;
+                showToast("Progress couldn't be saved. It will be lost if this tab closes.", "warning");
+            }
+        });
+}
+
+async function clearAttemptCheckpoint() {
+    try {
+        await deleteSetting(userKey('attemptCheckpoint'));
+    } catch (error) {
+        console.error("Error clearing attempt checkpoint:", error);
+    }
+}
+
+// Resolves true for "Resume attempt" and false for "Discard"
+function promptResumeAttempt(checkpoint: AttemptCheckpoint): Promise<boolean> {
+    const answered = checkpoint.userAnswers.filter(a => a !== null).length;
+    const savedAt = new Date(checkpoint.savedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+    resumeAttemptMessage.textContent = `You have an unfinished attempt of "${checkpoint.test.name}" from ${savedAt}: ` +
+        `${answered} of ${checkpoint.test.questions.length} answered, ${formatTimeLeft(checkpoint.timeRemaining)} left on the timer.`;
+    resumeAttemptModal.classList.remove('hidden');
+
+    return new Promise(resolve => {
+        const choose = (resume: boolean) => {
+            resumeAttemptModal.classList.add('hidden');
+            resumeAttemptBtn.onclick = null;
+            discardAttemptBtn.onclick = null;
+            resolve(resume);
+        };
+        resumeAttemptBtn.onclick = () => choose(true);
+        discardAttemptBtn.onclick = () => choose(false);
+    });
+}
+
+// Offered right after login, so an attempt interrupted by a crash or reload can be picked up on the next visit
+async function offerCheckpointResume() {
+    const checkpoint = await getAttemptCheckpoint();
+    if (!checkpoint) return;
+
+    if (await promptResumeAttempt(checkpoint)) {
+        resumeAttempt(checkpoint);
+    } else {
+        await clearAttemptCheckpoint();
+    }
+}
+
+// Called whenever the selected option changes, so the checkpoint always has the latest answer
+function recordAnswerChange() {
+    saveCurrentAnswer();
+    updatePalette();
+    saveAttemptCheckpoint();
 }
 
 // Format question text to properly display statement-based questions
-function formatQuestionText(text: string): string {
+function formatQuestionText(text: string): SafeHTML {
     // Check if it's a statement-based question
     const statementPatterns = [
         /(?:Consider the following|निम्नलिखित कथनों पर विचार|निम्न में से|Which of the following|Select the correct|Choose the correct)/i,
@@ -1258,11 +5842,11 @@ function formatQuestionText(text: string): string {
     const isStatementQuestion = statementPatterns.some(pattern => pattern.test(text));
     
     if (!isStatementQuestion) {
-        return `<p class="question-text">${text}</p>`;
+        return html`<p class="question-text">${text}</p>`;
     }
     
-    // Format statement-based questions
-    let formattedText = text;
+    // Format statement-based questions; the text is escaped first, so only the markup added below is live
+    let formattedText = escapeHTML(text);
     
     // Convert numbered statements (1., 2., etc.) to list items
     formattedText = formattedText.replace(/(\d+)\.\s+/g, '<br><strong>$1.</strong> ');
@@ -1288,36 +5872,93 @@ function formatQuestionText(text: string): string {
     // Remove leading line break if exists
     formattedText = formattedText.replace(/^<br\s*\/?>/, '');
     
-    return `<div class="question-text statement-question">${formattedText}</div>`;
+    return trustedHTML(`<div class="question-text statement-question">${formattedText}</div>`);
 }
 
 function renderQuestionForAttempt() {
-    const q = currentTest.questions[currentQuestionIndex];
-    const formattedQuestion = formatQuestionText(q.question);
+    const q = localizeQuestion(currentTest.questions[currentQuestionIndex], attemptLanguage);
+    const formattedQuestion = renderQuestionStem(q);
+    const isMultiple = questionTypeOf(q) === 'multiple';
     
-    questionContentContainer.innerHTML = `
-        <div class="question-number-badge">Question ${currentQuestionIndex + 1} of ${currentTest.questions.length}</div>
+    setHTML(questionContentContainer, html`
+        <div class="question-number-badge">Question ${currentQuestionIndex + 1} of ${currentTest.questions.length}${isMultiple ? ' · Select all that apply' : ''}</div>
         ${formattedQuestion}
         <ul class="attempt-options">
-            ${q.options.map((opt, index) => `
+            ${q.options.map((opt, index) => html`
                 <li class="attempt-option-item">
                     <label>
-                        <input type="radio" name="option" value="${index}" ${userAnswers[currentQuestionIndex] === index ? 'checked' : ''}>
+                        <input type="${isMultiple ? 'checkbox' : 'radio'}" name="option" value="${index}" ${isOptionChosen(userAnswers[currentQuestionIndex], index) ? 'checked' : ''}>
                         <span class="option-label">${String.fromCharCode(65 + index)}</span>
                         <span class="option-text">${opt}</span>
                     </label>
                 </li>
-            `).join('')}
+            `)}
         </ul>
-    `;
+    `);
+    loadQuestionImages(questionContentContainer);
 }
 
 function updatePalette() {
-    questionPaletteContainer.innerHTML = currentTest.questions.map((_, index) => {
+    const paletteButton = (index: number, locked = false) => {
         const status = questionStatuses[index];
         const isCurrent = index === currentQuestionIndex;
-        return `<button class="palette-btn ${status} ${isCurrent ? 'current' : ''}" data-index="${index}">${index + 1}</button>`;
-    }).join('');
+        return html`<button class="palette-btn ${status} ${isCurrent ? 'current' : ''} ${locked ? 'locked' : ''}" data-index="${index}" ${locked ? 'disabled' : ''}>${index + 1}</button>`;
+    };
+
+    if (!currentTest.sections) {
+        setHTML(questionPaletteContainer, currentTest.questions.map((_, index) => paletteButton(index)));
+        return;
+    }
+    setHTML(questionPaletteContainer, sectionRanges(currentTest).map((range, sectionIndex) => {
+        const locked = sectionIndex !== currentSectionIndex;
+        const state = sectionIndex < currentSectionIndex ? 'Submitted' : sectionIndex > currentSectionIndex ? 'Upcoming' : `${range.section.duration} min`;
+        const buttons = Array.from({ length: range.end - range.start }, (_, i) => paletteButton(range.start + i, locked));
+        return html`<div class="palette-section-title ${locked ? 'locked' : ''}">${range.section.name} · ${state}</div>${buttons}`;
+    }));
+}
+
+// The current section's question range, or the whole test when it has no sections
+function currentSectionRange(): { start: number; end: number } {
+    return currentTest.sections ? sectionRanges(currentTest)[currentSectionIndex] : { start: 0, end: currentTest.questions.length };
+}
+
+function isOnLastSection(): boolean {
+    return !currentTest?.sections || currentSectionIndex >= currentTest.sections.length - 1;
+}
+
+function updateSubmitLabel() {
+    submitTestLabel.textContent = isOnLastSection() ? 'Submit' : 'Submit Section';
+}
+
+function handleSubmitClick() {
+    if (isOnLastSection()) {
+        handleSubmitTest();
+    } else if (confirm(`Submit "${currentTest.sections[currentSectionIndex].name}"? You won't be able to return to its questions.`)) {
+        submitSection();
+    }
+}
+
+// Locks the current section and starts the next one with its own timer
+function submitSection() {
+    timePerQuestion[currentQuestionIndex] += (Date.now() - questionStartTime) / 1000;
+    saveCurrentAnswer();
+    sectionTimes[currentSectionIndex] = currentTest.sections[currentSectionIndex].duration * 60 - timeRemaining;
+
+    currentSectionIndex++;
+    const next = sectionRanges(currentTest)[currentSectionIndex];
+    timeRemaining = next.section.duration * 60;
+    timeLeftEl.textContent = formatTimeLeft(timeRemaining);
+    currentQuestionIndex = next.start;
+    questionStartTime = Date.now();
+    if (questionStatuses[currentQuestionIndex] === 'notVisited') {
+        questionStatuses[currentQuestionIndex] = 'notAnswered';
+    }
+
+    renderQuestionForAttempt();
+    updatePalette();
+    updateSubmitLabel();
+    saveAttemptCheckpoint();
+    showToast(`${next.section.name} started.`, "info");
 }
 
 questionPaletteContainer.addEventListener('click', e => {
@@ -1330,9 +5971,20 @@ questionPaletteContainer.addEventListener('click', e => {
     }
 });
 
+questionContentContainer.addEventListener('change', e => {
+    if ((e.target as HTMLElement).matches('input[name="option"]')) {
+        recordAnswerChange();
+    }
+});
+
 function saveCurrentAnswer() {
-    const selectedOption = document.querySelector('input[name="option"]:checked') as HTMLInputElement;
-    userAnswers[currentQuestionIndex] = selectedOption ? parseInt(selectedOption.value, 10) : null;
+    const selected = Array.from(document.querySelectorAll('input[name="option"]:checked') as NodeListOf<HTMLInputElement>)
+        .map(input => parseInt(input.value, 10));
+    if (selected.length === 0) {
+        userAnswers[currentQuestionIndex] = null;
+    } else {
+        userAnswers[currentQuestionIndex] = questionTypeOf(currentTest.questions[currentQuestionIndex]) === 'multiple' ? selected : selected[0];
+    }
 
     const currentStatus = questionStatuses[currentQuestionIndex];
     if (userAnswers[currentQuestionIndex] !== null) {
@@ -1354,16 +6006,17 @@ function navigateToQuestion(newIndex: number) {
     saveCurrentAnswer(); // Save answer for the outgoing question
 
     // Handle navigation limits - if at last question, stay there silently (no popup)
-    if (newIndex >= currentTest.questions.length) {
+    const { start, end } = currentSectionRange();
+    if (newIndex >= end) {
         updatePalette();
         questionStartTime = Date.now();
         // Show a subtle toast instead of alert
-        showToast("Last question reached. Click Submit when ready.", "info");
+        showToast(isOnLastSection() ? "Last question reached. Click Submit when ready." : "Last question of this section. Submit the section to move on.", "info");
         return;
     }
-    if (newIndex < 0) {
+    if (newIndex < start) {
         questionStartTime = Date.now();
-        showToast("You're at the first question.", "info");
+        showToast(start === 0 ? "You're at the first question." : "Earlier sections are submitted and locked.", "info");
         return;
     }
 
@@ -1377,6 +6030,7 @@ function navigateToQuestion(newIndex: number) {
     }
     renderQuestionForAttempt();
     updatePalette();
+    saveAttemptCheckpoint();
 }
 
 // Toast notification system
@@ -1387,10 +6041,10 @@ function showToast(message: string, type: 'info' | 'success' | 'warning' | 'erro
     
     const toast = document.createElement('div');
     toast.className = `toast-notification toast-${type}`;
-    toast.innerHTML = `
+    setHTML(toast, html`
         <span class="material-symbols-outlined">${type === 'info' ? 'info' : type === 'success' ? 'check_circle' : type === 'warning' ? 'warning' : 'error'}</span>
         <span>${message}</span>
-    `;
+    `);
     document.body.appendChild(toast);
     
     // Animate in
@@ -1410,9 +6064,10 @@ saveNextBtn.addEventListener('click', () => navigateToQuestion(currentQuestionIn
 prevBtn.addEventListener('click', () => navigateToQuestion(currentQuestionIndex - 1));
 
 clearResponseBtn.addEventListener('click', () => {
-    const selectedOption = document.querySelector('input[name="option"]:checked') as HTMLInputElement;
-    if (selectedOption) {
-        selectedOption.checked = false;
+    const selectedOptions = document.querySelectorAll('input[name="option"]:checked') as NodeListOf<HTMLInputElement>;
+    if (selectedOptions.length > 0) {
+        selectedOptions.forEach(option => { option.checked = false; });
+        recordAnswerChange();
         showToast("Response cleared", "info");
     }
 });
@@ -1427,7 +6082,7 @@ markReviewBtn.addEventListener('click', () => {
     navigateToQuestion(currentQuestionIndex + 1);
 });
 
-function handleSubmitTest() {
+async function handleSubmitTest() {
     try {
         stopTimer();
         
@@ -1446,21 +6101,26 @@ function handleSubmitTest() {
         let correctAnswers = 0;
         let incorrectAnswers = 0;
         let unanswered = 0;
+        let rawScore = 0;
+        let totalMaxScore = 0;
         
         currentTest.questions.forEach((q, index) => {
+            const { marks, negative } = marksFor(currentTest, index);
+            totalMaxScore += marks;
             if (userAnswers[index] === null) {
                 unanswered++;
-            } else if (userAnswers[index] === q.answer) {
+            } else if (isCorrectAnswer(q, userAnswers[index])) {
                 correctAnswers++;
+                rawScore += marks;
             } else {
                 incorrectAnswers++;
+                rawScore -= negative;
             }
         });
 
-        const marksPerQ = currentTest.marksPerQuestion || 1;
-        const negMark = currentTest.negativeMarking || 0;
-        const rawScore = (correctAnswers * marksPerQ) - (incorrectAnswers * negMark);
-        const totalMaxScore = currentTest.questions.length * marksPerQ;
+        if (currentTest.sections) {
+            sectionTimes[currentSectionIndex] = currentTest.sections[currentSectionIndex].duration * 60 - timeRemaining;
+        }
 
         // Calculate percentage based on raw score vs potential max score
         const scorePercentage = totalMaxScore > 0 
@@ -1468,10 +6128,11 @@ function handleSubmitTest() {
             : 0;
         
         const attempt: TestAttempt = {
+            id: `attempt_${Date.now()}`,
             testId: currentTest.id,
             testName: currentTest.name,
             userAnswers,
-            timeTaken: (currentTest.duration * 60) - timeRemaining,
+            timeTaken: currentTest.sections ? sectionTimes.reduce((a, b) => a + b, 0) : (currentTest.duration * 60) - timeRemaining,
             timePerQuestion,
             completedAt: new Date().toISOString(),
             score: scorePercentage, // Storing percentage for consistency
@@ -1479,12 +6140,24 @@ function handleSubmitTest() {
             correctAnswers,
             incorrectAnswers,
             unanswered,
+            questionStatuses,
+            ...(currentTest.sections ? { sectionTimes } : {}),
             fullTest: currentTest
         };
 
-        const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
-        history.unshift(attempt);
-        saveToStorage('performanceHistory', history);
+        try {
+            await saveAttempt(attempt);
+            await clearAttemptCheckpoint();
+        } catch (error) {
+            // Don't lose the attempt: the report is still shown and the user can keep a copy of it
+            console.error("Error saving attempt:", error);
+            if (confirm(`Your attempt could not be saved. ${error.message}\n\nDownload a copy of this attempt so it isn't lost? You can restore it later.`)) {
+                downloadJSON({ schemaVersion: SCHEMA_VERSION, performanceHistory: [attempt] }, `attempt-${attempt.testName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.json`);
+            }
+        }
+
+        updateReviewSchedule(attempt).catch(error => console.error("Error updating the review schedule:", error));
+        refreshDifficultyEstimates().catch(error => console.error("Error calibrating question difficulty:", error));
 
         currentTest = null; // Clear the current test state
         
@@ -1504,41 +6177,60 @@ function startTimer() {
     if (timerInterval) window.clearInterval(timerInterval);
     timerInterval = window.setInterval(() => {
         timeRemaining--;
-        const hours = Math.floor(timeRemaining / 3600);
-        const minutes = Math.floor((timeRemaining % 3600) / 60);
-        const seconds = timeRemaining % 60;
-        timeLeftEl.textContent = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+        timeLeftEl.textContent = formatTimeLeft(timeRemaining);
+        saveAttemptCheckpoint();
         
         if (timeRemaining <= 0) {
             stopTimer();
+            if (!isOnLastSection()) {
+                alert(`Time's up for "${currentTest.sections[currentSectionIndex].name}". Moving to the next section.`);
+                submitSection();
+                startTimer();
+                return;
+            }
             alert("Time's up! Your test will be submitted automatically.");
             handleSubmitTest();
         }
     }, 1000);
 }
 
+function formatTimeLeft(totalSeconds: number): string {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
 function stopTimer() {
     if (timerInterval) window.clearInterval(timerInterval);
     timerInterval = null;
 }
 
 // --- Performance Logic ---
-function renderPerformanceHistory() {
-    const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
+async function renderPerformanceHistory() {
+    let history: TestAttempt[];
+    try {
+        history = await getAttempts();
+    } catch (error) {
+        console.error("Error loading attempts:", error);
+        setHTML(performanceContainer, html`<p class="placeholder">Could not load your results. ${error.message}</p>`);
+        return;
+    }
     if (history.length === 0) {
-        performanceContainer.innerHTML = `<p class="placeholder">You haven't completed any tests yet.</p>`;
+        setHTML(performanceContainer, html`<p class="placeholder">You haven't completed any tests yet.</p>`);
         return;
     }
 
-    performanceContainer.innerHTML = history.map((attempt, index) => {
+    setHTML(performanceContainer, history.map(attempt => {
         const dateObj = new Date(attempt.completedAt);
         const date = dateObj.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
         const time = dateObj.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
-        const scoreClass = attempt.score >= 50 ? 'pass' : 'fail';
+        const qualified = hasQualified(attempt);
+        const scoreClass = qualified ? 'pass' : 'fail';
         const timeTakenStr = new Date(attempt.timeTaken * 1000).toISOString().substr(14, 5); // MM:SS
 
-        return `
-        <div class="history-card" data-attempt-index="${index}">
+        return html`
+        <div class="history-card" data-attempt-id="${attempt.id}">
             <div class="history-info">
                 <h3>${attempt.testName}</h3>
                 <div class="history-meta">
@@ -1558,22 +6250,22 @@ function renderPerformanceHistory() {
             </div>
             <div class="history-score-area">
                 <div class="score-badge ${scoreClass}">${attempt.score.toFixed(2)}%</div>
-                <p class="accuracy-label">Accuracy</p>
+                <p class="accuracy-label">${qualified ? 'Qualified' : 'Not qualified'} (${qualifyingPercentFor(attempt.fullTest)}% needed)</p>
             </div>
             <button class="view-test-btn" style="width: 100%; margin-top: 1rem;">
                 <span class="material-symbols-outlined">analytics</span> View Detailed Analysis
             </button>
         </div>
-    `}).join('');
+    `}));
 }
 
-performanceContainer.addEventListener('click', (e) => {
+performanceContainer.addEventListener('click', async (e) => {
     const target = e.target as HTMLElement;
     const item = target.closest('.history-card') as HTMLElement; 
     if (item) {
-        const index = parseInt(item.dataset.attemptIndex, 10);
-        const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
-        renderPerformanceReport(history[index], true);
+        const attempt = await getAttempt(item.dataset.attemptId);
+        if (!attempt) return;
+        renderPerformanceReport(attempt, true);
         showView(performanceReportView);
     }
 });
@@ -1584,24 +6276,70 @@ function renderPerformanceReport(attempt: TestAttempt, fromHistory: boolean = tr
     // Update Back button logic based on entry point
     if (fromHistory) {
         reportReturnView = performanceView;
-        backToPerformanceListBtn.innerHTML = '<span class="material-symbols-outlined">arrow_back</span> Back to History';
+        setHTML(backToPerformanceListBtn, html`<span class="material-symbols-outlined">arrow_back</span> Back to History`);
     } else {
         reportReturnView = allTestsView;
-        backToPerformanceListBtn.innerHTML = '<span class="material-symbols-outlined">home</span> Back to All Tests';
+        setHTML(backToPerformanceListBtn, html`<span class="material-symbols-outlined">home</span> Back to All Tests`);
     }
 
     performanceReportTitle.textContent = `Result Report for ${attempt.testName}`;
+
+    // 1. Render Summary Cards with enhanced info
+    setHTML(performanceSummaryContainer, createSummaryHTML(attempt));
+
+    // 2. Render content into all containers (initially hidden by CSS except active one)
+    renderTimeAnalysisCharts(attempt);
+    renderSubjectBreakdown(attempt);
+    renderTopicWiseAnalysis(attempt);
+    renderBiasAnalysis(attempt);
+    renderMistakesReview(attempt);
+    renderAllQuestionsReview(attempt);
+    renderDifficultyAnalysis(attempt);
+    renderSectionBreakdown(attempt);
     
+    // 3. Reset Tab State (Default to Mistake Review)
+    const reportTabs = document.querySelectorAll('.report-tab-btn');
+    const reportPanes = document.querySelectorAll('.report-tab-pane');
+
+    reportTabs.forEach(tab => tab.classList.remove('active'));
+    reportPanes.forEach(pane => pane.classList.remove('active'));
+
+    // Default active: Mistakes Review
+    const defaultTab = document.querySelector('.report-tab-btn[data-target="mistakes-view"]');
+    if (defaultTab) {
+        defaultTab.classList.add('active');
+        mistakesReviewContainer.classList.add('active');
+    }
+
+    downloadReportBtn.onclick = () => {
+        reportFormatHint.textContent = REPORT_FORMAT_HINTS[reportFormatSelect.value as ReportFormat];
+        downloadReportModal.classList.remove('hidden');
+    };
+    exportMistakesBtn.onclick = () => {
+        const mistakes = attempt.fullTest.questions.map((_, index) => index).filter(index => isMistake(attempt, index));
+        if (mistakes.length === 0) {
+            showToast("There are no incorrect answers to export.", "info");
+            return;
+        }
+        openQuestionExport(
+            { ...subsetTest(attempt.fullTest, mistakes), name: `${attempt.testName} - Mistakes` },
+            `The ${mistakes.length} question(s) you answered incorrectly in "${attempt.testName}".`
+        );
+    };
+}
+
+function createSummaryHTML(attempt: TestAttempt): SafeHTML {
     const attemptedCount = attempt.correctAnswers + attempt.incorrectAnswers;
     const accuracy = attemptedCount > 0 ? (attempt.correctAnswers / attemptedCount) * 100 : 0;
     const avgTimePerQ = attempt.totalQuestions > 0 ? (attempt.timeTaken / attempt.totalQuestions) : 0;
     
     // Calculate rank estimate
     const rankCategory = attempt.score >= 80 ? 'Excellent' : attempt.score >= 60 ? 'Good' : attempt.score >= 40 ? 'Average' : 'Needs Work';
+    const qualified = hasQualified(attempt);
+    const qualifyColor = qualified ? 'var(--success-color)' : 'var(--danger-color)';
     const rankColor = attempt.score >= 80 ? 'var(--success-color)' : attempt.score >= 60 ? 'var(--info-color)' : attempt.score >= 40 ? 'var(--warning-color)' : 'var(--danger-color)';
     
-    // 1. Render Summary Cards with enhanced info
-    performanceSummaryContainer.innerHTML = `
+    return html`
         <div class="summary-card score">
             <div class="summary-icon"><span class="material-symbols-outlined">percent</span></div>
             <div class="summary-data">
@@ -1651,6 +6389,13 @@ function renderPerformanceReport(attempt: TestAttempt, fromHistory: boolean = tr
                  <div class="summary-label">Performance</div>
              </div>
         </div>
+        <div class="summary-card qualification" style="--accent-color: ${qualifyColor}">
+             <div class="summary-icon"><span class="material-symbols-outlined">${qualified ? 'verified' : 'block'}</span></div>
+             <div class="summary-data">
+                 <div class="summary-value" style="color: ${qualifyColor}; font-size: 1rem;">${qualified ? 'Qualified' : 'Not Qualified'}</div>
+                 <div class="summary-label">${qualifyingPercentFor(attempt.fullTest)}% needed</div>
+             </div>
+        </div>
         <div class="summary-card avgtime">
              <div class="summary-icon"><span class="material-symbols-outlined">speed</span></div>
              <div class="summary-data">
@@ -1659,31 +6404,6 @@ function renderPerformanceReport(attempt: TestAttempt, fromHistory: boolean = tr
              </div>
         </div>
     `;
-
-    // 2. Render content into all containers (initially hidden by CSS except active one)
-    renderTimeAnalysisCharts(attempt);
-    renderSubjectBreakdown(attempt);
-    renderTopicWiseAnalysis(attempt);
-    renderBiasAnalysis(attempt);
-    renderMistakesReview(attempt);
-    renderAllQuestionsReview(attempt);
-    renderDifficultyAnalysis(attempt);
-    
-    // 3. Reset Tab State (Default to Mistake Review)
-    const reportTabs = document.querySelectorAll('.report-tab-btn');
-    const reportPanes = document.querySelectorAll('.report-tab-pane');
-
-    reportTabs.forEach(tab => tab.classList.remove('active'));
-    reportPanes.forEach(pane => pane.classList.remove('active'));
-
-    // Default active: Mistakes Review
-    const defaultTab = document.querySelector('.report-tab-btn[data-target="mistakes-view"]');
-    if (defaultTab) {
-        defaultTab.classList.add('active');
-        mistakesReviewContainer.classList.add('active');
-    }
-
-    downloadReportBtn.onclick = () => handleDownloadReport(attempt);
 }
 
 // Add event delegation for Tab Switching
@@ -1709,91 +6429,249 @@ document.querySelector('.report-tabs-container')?.addEventListener('click', (e)
 });
 
 
-function handleDownloadReport(attempt: TestAttempt) {
-    let reportContent = `Result Report for: ${attempt.testName}\n`;
-    reportContent += `Completed on: ${new Date(attempt.completedAt).toLocaleString()}\n`;
-    reportContent += `========================================\n\n`;
+// --- Report Export ---
+// A report can be saved as a self-contained HTML page (the same summary, charts and tables as the report tabs,
+// styled with the app's own stylesheet), printed to PDF from that page, or saved as CSV/JSON with one row per
+// question for spreadsheets and scripts.
+type ReportFormat = 'html' | 'pdf' | 'csv' | 'json';
+
+interface ReportQuestionRow {
+    number: number;
+    section: string;
+    subject: string;
+    topic: string;
+    difficulty: DifficultyLevel; // calibrated across all attempts
+    question: string;
+    yourAnswer: string; // option letters, empty when unanswered
+    correctAnswer: string;
+    status: 'correct' | 'incorrect' | 'unanswered';
+    marks: number; // awarded, negative for a penalised wrong answer
+    timeSeconds: number;
+}
+
+interface ReportBreakdownRow {
+    name: string;
+    total: number;
+    correct: number;
+    incorrect: number;
+    unanswered: number;
+    accuracy: number; // % of attempted
+    marks: number;
+    averageTimeSeconds: number;
+}
+
+const REPORT_FORMAT_HINTS: Record<ReportFormat, string> = {
+    html: 'A single HTML file with the summary, section, subject, topic, time, bias and difficulty analysis and every question with its explanation. It opens in any browser, offline.',
+    pdf: 'Opens the HTML report and the print dialog; choose "Save as PDF" as the printer.',
+    csv: 'One row per question: section, subject, topic, difficulty, your answer, the correct answer, marks and time. Opens in Excel or Google Sheets.',
+    json: 'The summary, the section/subject/topic/difficulty breakdowns and one entry per question, for your own scripts.'
+};
+
+// Kept out of the app stylesheet: the exported page has no app shell around it
+const REPORT_EXPORT_STYLES = `
+body { display: block; background-attachment: scroll; }
+#performance-report-view { margin: 0 auto; animation: none; }
+.report-export-meta { margin: -0.5rem 0 1.5rem; }
+.report-card h3 { text-align: left; }
+@media print {
+    body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    .summary-card, .section-result-card, .difficulty-card, .bias-chart-card, .results-detail-item { break-inside: avoid; }
+}`;
+
+function reportQuestionRows(attempt: TestAttempt): ReportQuestionRow[] {
+    const test = attempt.fullTest;
+    const ranges = sectionRanges(test);
+    return test.questions.map((q, i) => {
+        const answer = attempt.userAnswers[i];
+        const status = answer === null || answer === undefined ? 'unanswered' : isCorrectAnswer(q, answer) ? 'correct' : 'incorrect';
+        const { marks, negative } = marksFor(test, i);
+        return {
+            number: i + 1,
+            section: ranges.find(r => i >= r.start && i < r.end)?.section.name ?? '',
+            subject: q.subject || 'Uncategorized',
+            topic: q.topic || 'General',
+            difficulty: estimateDifficulty(q).level,
+            question: questionStemText(q),
+            yourAnswer: formatAnswerLetters(answer),
+            correctAnswer: formatAnswerLetters(correctOptionIndices(q)),
+            status,
+            marks: status === 'correct' ? marks : status === 'incorrect' ? -negative : 0,
+            timeSeconds: Math.round((attempt.timePerQuestion[i] || 0) * 10) / 10
+        };
+    });
+}
+
+function reportBreakdown(rows: ReportQuestionRow[], key: 'section' | 'subject' | 'topic' | 'difficulty'): ReportBreakdownRow[] {
+    const groups = new Map<string, ReportQuestionRow[]>();
+    rows.forEach(row => groups.set(row[key], [...(groups.get(row[key]) ?? []), row]));
+    return [...groups].map(([name, group]) => {
+        const correct = group.filter(r => r.status === 'correct').length;
+        const incorrect = group.filter(r => r.status === 'incorrect').length;
+        return {
+            name,
+            total: group.length,
+            correct,
+            incorrect,
+            unanswered: group.length - correct - incorrect,
+            accuracy: correct + incorrect > 0 ? Math.round((correct / (correct + incorrect)) * 1000) / 10 : 0,
+            marks: Math.round(group.reduce((sum, r) => sum + r.marks, 0) * 100) / 100,
+            averageTimeSeconds: Math.round((group.reduce((sum, r) => sum + r.timeSeconds, 0) / group.length) * 10) / 10
+        };
+    });
+}
 
-    // Overall Summary
+function buildReportJSON(attempt: TestAttempt) {
+    const rows = reportQuestionRows(attempt);
     const attempted = attempt.correctAnswers + attempt.incorrectAnswers;
-    const accuracy = attempted > 0 ? (attempt.correctAnswers / attempted) * 100 : 0;
-    const timeTakenStr = new Date(attempt.timeTaken * 1000).toISOString().substr(11, 8);
-    
-    reportContent += `--- Overall Summary ---\n`;
-    reportContent += `Score: ${attempt.score.toFixed(2)}%\n`;
-    reportContent += `Accuracy (on attempted): ${accuracy.toFixed(2)}%\n`;
-    reportContent += `Correct Answers: ${attempt.correctAnswers}\n`;
-    reportContent += `Incorrect Answers: ${attempt.incorrectAnswers}\n`;
-    reportContent += `Unanswered: ${attempt.unanswered}\n`;
-    reportContent += `Total Questions: ${attempt.totalQuestions}\n`;
-    reportContent += `Time Taken: ${timeTakenStr}\n\n`;
-
-    // Subject Breakdown
-    reportContent += `--- Subject & Topic Breakdown ---\n`;
-    const subjectStats: { [key: string]: { correct: number, total: number, topics: { [key: string]: { correct: number, total: number } } } } = {};
-    attempt.fullTest.questions.forEach((q, i) => {
-        const subject = q.subject || 'Uncategorized';
-        const topic = q.topic || 'General';
-        if (!subjectStats[subject]) subjectStats[subject] = { correct: 0, total: 0, topics: {} };
-        if (!subjectStats[subject].topics[topic]) subjectStats[subject].topics[topic] = { correct: 0, total: 0 };
-        subjectStats[subject].total++;
-        subjectStats[subject].topics[topic].total++;
-        if (attempt.userAnswers[i] === q.answer) {
-            subjectStats[subject].correct++;
-            subjectStats[subject].topics[topic].correct++;
+    return {
+        test: {
+            name: attempt.testName,
+            completedAt: attempt.completedAt,
+            totalQuestions: attempt.totalQuestions,
+            durationMinutes: attempt.fullTest.duration,
+            maximumMarks: attempt.fullTest.questions.reduce((sum, _, i) => sum + marksFor(attempt.fullTest, i).marks, 0)
+        },
+        summary: {
+            scorePercent: Math.round(attempt.score * 100) / 100,
+            marks: Math.round(rows.reduce((sum, r) => sum + r.marks, 0) * 100) / 100,
+            accuracyPercent: attempted > 0 ? Math.round((attempt.correctAnswers / attempted) * 1000) / 10 : 0,
+            correct: attempt.correctAnswers,
+            incorrect: attempt.incorrectAnswers,
+            unanswered: attempt.unanswered,
+            timeTakenSeconds: attempt.timeTaken,
+            qualifyingPercent: qualifyingPercentFor(attempt.fullTest),
+            qualified: hasQualified(attempt)
+        },
+        ...(attempt.fullTest.sections ? { sections: reportBreakdown(rows, 'section') } : {}),
+        subjects: reportBreakdown(rows, 'subject'),
+        topics: reportBreakdown(rows, 'topic'),
+        difficulty: reportBreakdown(rows, 'difficulty'),
+        questions: rows
+    };
+}
+
+function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function buildReportCSV(attempt: TestAttempt): string {
+    const columns: [keyof ReportQuestionRow, string][] = [
+        ['number', 'Question No.'], ['section', 'Section'], ['subject', 'Subject'], ['topic', 'Topic'], ['difficulty', 'Difficulty'],
+        ['question', 'Question'], ['yourAnswer', 'Your Answer'], ['correctAnswer', 'Correct Answer'], ['status', 'Status'],
+        ['marks', 'Marks'], ['timeSeconds', 'Time (s)']
+    ];
+    const lines = [
+        columns.map(([, label]) => label),
+        ...reportQuestionRows(attempt).map(row => columns.map(([key]) => row[key]))
+    ].map(cells => cells.map(csvField).join(','));
+    // The byte order mark makes Excel read the file as UTF-8, so Hindi text survives
+    return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+// The app's stylesheet rules; cross-origin font sheets can't be read and are left out, along with the icons that need them
+function appStyles(): string {
+    return Array.from(document.styleSheets).flatMap(sheet => {
+        try {
+            return Array.from(sheet.cssRules, rule => rule.cssText);
+        } catch {
+            return [];
         }
-    });
+    }).join('\n');
+}
 
-    for (const [subject, stats] of Object.entries(subjectStats)) {
-        const subjectAccuracy = stats.total > 0 ? (stats.correct / stats.total) * 100 : 0;
-        reportContent += `${subject} (${subjectAccuracy.toFixed(1)}% Accuracy)\n`;
-         for (const [topic, topicStats] of Object.entries(stats.topics)) {
-             const topicAccuracy = topicStats.total > 0 ? (topicStats.correct / topicStats.total) * 100 : 0;
-             reportContent += `  - ${topic}: ${topicStats.correct}/${topicStats.total} (${topicAccuracy.toFixed(0)}%)\n`;
-         }
-        reportContent += `\n`;
-    }
-
-    // All Questions Review
-    reportContent += `--- All Questions Review ---\n\n`;
-    attempt.fullTest.questions.forEach((q, index) => {
-         const userAnswer = attempt.userAnswers[index];
-         let userStatus = '';
-         if (userAnswer === q.answer) userStatus = 'Correct';
-         else if (userAnswer !== null) userStatus = 'Incorrect';
-         else userStatus = 'Unanswered';
-
-        reportContent += `Q${index + 1}: ${q.question} (${userStatus}) - Time: ${attempt.timePerQuestion[index].toFixed(1)}s\n`;
-        q.options.forEach((opt, optIndex) => {
-            let marker = '[ ]';
-            if (optIndex === q.answer && optIndex === userAnswer) marker = '[✓]'; // Correctly answered
-            else if (optIndex === q.answer) marker = '[✓]'; // Correct answer
-            else if (optIndex === userAnswer) marker = '[✗]'; // User's incorrect answer
-            
-            reportContent += `  ${marker} ${opt}\n`;
-        });
-        reportContent += `Explanation: ${q.explanation}\n\n`;
+async function buildReportDocument(attempt: TestAttempt): Promise<string> {
+    const reportCard = (title: string, content: SafeHTML | SafeHTML[], className = '') => html`
+        <div class="report-card">
+            <h3>${title}</h3>
+            <div class="${className}">${content}</div>
+        </div>`;
+    const container = document.createElement('div');
+    setHTML(container, html`
+        <h2>Result Report for ${attempt.testName}</h2>
+        <p class="report-export-meta">Completed on ${new Date(attempt.completedAt).toLocaleString()}</p>
+        ${reportCard('Overall Summary', createSummaryHTML(attempt), 'results-summary-container')}
+        ${attempt.fullTest.sections ? reportCard('Sections', createSectionBreakdownHTML(attempt)) : ''}
+        ${reportCard('Subjects', createSubjectBreakdownHTML(attempt))}
+        ${reportCard('Topics', createTopicWiseHTML(attempt))}
+        ${reportCard('Time Analysis', createTimeAnalysisHTML(attempt))}
+        ${reportCard('Answer Bias', createBiasAnalysisHTML(attempt))}
+        ${reportCard('Difficulty', createDifficultyAnalysisHTML(attempt))}
+        ${reportCard('All Questions', attempt.fullTest.questions.map((q, i) => createQuestionReviewHTML(q, i, attempt)))}
+    `);
+
+    // Everything is shown expanded, without the controls that only work inside the app
+    container.querySelectorAll('.material-symbols-outlined, .expand-chart-btn, .deeper-analysis-controls, .deeper-analysis-container').forEach(el => el.remove());
+    container.querySelectorAll('details').forEach(details => { details.open = true; });
+    container.querySelector('.question-time-chart')?.classList.add('expanded');
+    container.querySelectorAll('[id]').forEach(el => el.removeAttribute('id'));
+
+    const images = await exportImages(attempt.fullTest.questions);
+    container.querySelectorAll<HTMLImageElement>('img[data-image-id]').forEach(img => {
+        const dataURL = images[img.dataset.imageId];
+        if (dataURL) img.src = dataURL;
+        else img.closest('.question-image')?.remove();
     });
-    
-    const blob = new Blob([reportContent], { type: 'text/plain;charset=utf-8' });
+    return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHTML(`Result Report for ${attempt.testName}`)}</title><style>${appStyles()}${REPORT_EXPORT_STYLES}</style></head><body><section id="performance-report-view">${container.innerHTML}</section></body></html>`;
+}
+
+async function handleDownloadReport(attempt: TestAttempt, format: ReportFormat) {
+    const baseName = `report-${attempt.testName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}`;
+    if (format === 'csv') {
+        downloadBlob(new Blob([buildReportCSV(attempt)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+        return;
+    }
+    if (format === 'json') {
+        downloadJSON(buildReportJSON(attempt), `${baseName}.json`);
+        return;
+    }
+
+    let documentHTML: string;
+    try {
+        documentHTML = await buildReportDocument(attempt);
+    } catch (error) {
+        reportStorageError('read the images of this report', error);
+        return;
+    }
+    const blob = new Blob([documentHTML], { type: 'text/html;charset=utf-8' });
+    if (format === 'html') {
+        downloadBlob(blob, `${baseName}.html`);
+        return;
+    }
     const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `report-${attempt.testName.replace(/[^a-zA-Z0-9]/g, '-')}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const printWindow = window.open(url, '_blank');
+    if (!printWindow) {
+        URL.revokeObjectURL(url);
+        showToast("The print window was blocked. Allow pop-ups, or download the HTML report and print it instead.", "warning");
+        return;
+    }
+    printWindow.addEventListener('load', () => {
+        printWindow.print();
+        URL.revokeObjectURL(url);
+    });
 }
 
-function renderTimeAnalysisCharts(attempt: TestAttempt) {
+reportFormatSelect.addEventListener('change', () => {
+    reportFormatHint.textContent = REPORT_FORMAT_HINTS[reportFormatSelect.value as ReportFormat];
+});
+closeDownloadReportBtn.addEventListener('click', () => downloadReportModal.classList.add('hidden'));
+downloadReportModal.addEventListener('click', e => {
+    if (e.target === downloadReportModal) downloadReportModal.classList.add('hidden');
+});
+confirmDownloadReportBtn.addEventListener('click', async () => {
+    if (!currentAttemptForReport) return;
+    await handleDownloadReport(currentAttemptForReport, reportFormatSelect.value as ReportFormat);
+    downloadReportModal.classList.add('hidden');
+});
+
+function createTimeAnalysisHTML(attempt: TestAttempt): SafeHTML[] {
     const avgTime = attempt.timePerQuestion.reduce((a, b) => a + b, 0) / attempt.timePerQuestion.length;
     const maxTime = Math.max(...attempt.timePerQuestion, 1);
     const minTime = Math.min(...attempt.timePerQuestion);
     const medianTime = [...attempt.timePerQuestion].sort((a, b) => a - b)[Math.floor(attempt.timePerQuestion.length / 2)];
     
     // Time Statistics Cards
-    let timeStatsHTML = `
+    const timeStatsHTML = html`
         <div class="time-stats-grid">
             <div class="time-stat-card">
                 <span class="material-symbols-outlined">avg_time</span>
@@ -1819,15 +6697,11 @@ function renderTimeAnalysisCharts(attempt: TestAttempt) {
     `;
     
     // Question Time Chart with Toggle Button
-    let perQuestionChartHTML = '<h4 style="margin-top: 1.5rem;">Time Spent Per Question</h4><div class="chart-legend"><span class="legend-item"><span class="palette-indicator answered"></span> Correct</span><span class="legend-item"><span class="palette-indicator not-answered"></span> Incorrect</span><span class="legend-item"><span class="palette-indicator not-visited"></span> Unanswered</span></div>';
-    
-    perQuestionChartHTML += '<div id="q-chart-container" class="chart question-time-chart">';
-
-    attempt.timePerQuestion.forEach((time, index) => {
+    const questionRowsHTML = attempt.timePerQuestion.map((time, index) => {
         const q = attempt.fullTest.questions[index];
         const userAnswer = attempt.userAnswers[index];
         let statusClass = 'bar-unanswered';
-        if (userAnswer === q.answer) {
+        if (isCorrectAnswer(q, userAnswer)) {
             statusClass = 'bar-correct';
         } else if (userAnswer !== null) {
             statusClass = 'bar-incorrect';
@@ -1835,7 +6709,7 @@ function renderTimeAnalysisCharts(attempt: TestAttempt) {
         
         const barWidth = (time / maxTime) * 100;
 
-        perQuestionChartHTML += `
+        return html`
             <div class="chart-row">
                 <div class="chart-label">Q${index + 1}</div>
                 <div class="chart-bar-container">
@@ -1845,10 +6719,9 @@ function renderTimeAnalysisCharts(attempt: TestAttempt) {
             </div>
         `;
     });
-    perQuestionChartHTML += '</div>';
-    
-    // Add the Expand Button
-    perQuestionChartHTML += `<button id="expand-chart-btn" class="expand-chart-btn">Show Full Chart (All Questions)</button>`;
+    const perQuestionChartHTML = html`<h4 style="margin-top: 1.5rem;">Time Spent Per Question</h4><div class="chart-legend"><span class="legend-item"><span class="palette-indicator answered"></span> Correct</span><span class="legend-item"><span class="palette-indicator not-answered"></span> Incorrect</span><span class="legend-item"><span class="palette-indicator not-visited"></span> Unanswered</span></div>
+        <div id="q-chart-container" class="chart question-time-chart">${questionRowsHTML}</div>
+        <button id="expand-chart-btn" class="expand-chart-btn">Show Full Chart (All Questions)</button>`;
 
     // Subject Time Analysis
     const subjectTimes: { [key: string]: { totalTime: number; count: number; correct: number } } = {};
@@ -1859,7 +6732,7 @@ function renderTimeAnalysisCharts(attempt: TestAttempt) {
         }
         subjectTimes[subject].totalTime += attempt.timePerQuestion[i];
         subjectTimes[subject].count++;
-        if (attempt.userAnswers[i] === q.answer) {
+        if (isCorrectAnswer(q, attempt.userAnswers[i])) {
             subjectTimes[subject].correct++;
         }
     });
@@ -1872,11 +6745,10 @@ function renderTimeAnalysisCharts(attempt: TestAttempt) {
     
     const maxAvgTime = Math.max(...subjectAvgs.map(s => s.avgTime), 1);
     
-    let perSubjectChartHTML = '<br><br><h4>Average Time Per Subject</h4><div class="chart subject-time-chart">';
-    subjectAvgs.forEach(({ subject, avgTime, accuracy }) => {
+    const subjectRowsHTML = subjectAvgs.map(({ subject, avgTime, accuracy }) => {
         const barWidth = (avgTime / maxAvgTime) * 100;
         const barColor = accuracy >= 70 ? 'var(--success-color)' : accuracy >= 50 ? 'var(--warning-color)' : 'var(--danger-color)';
-        perSubjectChartHTML += `
+        return html`
             <div class="chart-row">
                 <div class="chart-label">${subject}</div>
                 <div class="chart-bar-container">
@@ -1886,15 +6758,9 @@ function renderTimeAnalysisCharts(attempt: TestAttempt) {
             </div>
         `;
     });
-    perSubjectChartHTML += '</div>';
-    
-    // Time Distribution Analysis
-    let timeDistHTML = `
-        <h4 style="margin-top: 2rem;">Time Distribution Insights</h4>
-        <div class="time-distribution-grid">
-    `;
+    const perSubjectChartHTML = html`<br><br><h4>Average Time Per Subject</h4><div class="chart subject-time-chart">${subjectRowsHTML}</div>`;
     
-    // Categorize by time ranges
+    // Time Distribution Analysis, categorized by time ranges
     const quick = attempt.timePerQuestion.filter(t => t < avgTime * 0.5).length;
     const normal = attempt.timePerQuestion.filter(t => t >= avgTime * 0.5 && t <= avgTime * 1.5).length;
     const slow = attempt.timePerQuestion.filter(t => t > avgTime * 1.5).length;
@@ -1903,7 +6769,9 @@ function renderTimeAnalysisCharts(attempt: TestAttempt) {
     const normalPct = (normal / attempt.totalQuestions) * 100;
     const slowPct = (slow / attempt.totalQuestions) * 100;
     
-    timeDistHTML += `
+    const timeDistHTML = html`
+        <h4 style="margin-top: 2rem;">Time Distribution Insights</h4>
+        <div class="time-distribution-grid">
             <div class="time-dist-bar">
                 <div class="dist-segment quick" style="width: ${quickPct}%"></div>
                 <div class="dist-segment normal" style="width: ${normalPct}%"></div>
@@ -1917,7 +6785,11 @@ function renderTimeAnalysisCharts(attempt: TestAttempt) {
         </div>
     `;
 
-    timeAnalysisContainer.innerHTML = timeStatsHTML + perQuestionChartHTML + perSubjectChartHTML + timeDistHTML;
+    return [timeStatsHTML, perQuestionChartHTML, perSubjectChartHTML, timeDistHTML];
+}
+
+function renderTimeAnalysisCharts(attempt: TestAttempt) {
+    setHTML(timeAnalysisContainer, createTimeAnalysisHTML(attempt));
 
     // Attach listener for Expand Button
     document.getElementById('expand-chart-btn')?.addEventListener('click', (e) => {
@@ -1935,7 +6807,7 @@ function renderTimeAnalysisCharts(attempt: TestAttempt) {
 }
 
 
-function renderSubjectBreakdown(attempt: TestAttempt) {
+function createSubjectBreakdownHTML(attempt: TestAttempt): SafeHTML[] {
     const subjectStats: { [key: string]: { correct: number, total: number, incorrect: number, unanswered: number, totalTime: number, topics: { [key: string]: { correct: number, total: number } } } } = {};
     
     attempt.fullTest.questions.forEach((q, i) => {
@@ -1955,7 +6827,7 @@ function renderSubjectBreakdown(attempt: TestAttempt) {
 
         if (attempt.userAnswers[i] === null) {
             subjectStats[subject].unanswered++;
-        } else if (attempt.userAnswers[i] === q.answer) {
+        } else if (isCorrectAnswer(q, attempt.userAnswers[i])) {
             subjectStats[subject].correct++;
             subjectStats[subject].topics[topic].correct++;
         } else {
@@ -1964,14 +6836,14 @@ function renderSubjectBreakdown(attempt: TestAttempt) {
     });
 
     // Create visual pie chart representation for each subject
-    subjectBreakdownContainer.innerHTML = Object.entries(subjectStats).map(([subject, stats]) => {
+    return Object.entries(subjectStats).map(([subject, stats]) => {
         const accuracy = stats.total > 0 ? (stats.correct / stats.total) * 100 : 0;
         const avgTime = stats.total > 0 ? (stats.totalTime / stats.total) : 0;
         const correctPct = (stats.correct / stats.total) * 100;
         const incorrectPct = (stats.incorrect / stats.total) * 100;
         const unansweredPct = (stats.unanswered / stats.total) * 100;
         
-        return `
+        return html`
             <details class="subject-breakdown-item">
                 <summary class="subject-header">
                     <h4>${subject}</h4>
@@ -2006,24 +6878,25 @@ function renderSubjectBreakdown(attempt: TestAttempt) {
                 <div class="topic-breakdown">
                     ${Object.entries(stats.topics).map(([topic, topicStats]) => {
                         const topicAccuracy = topicStats.total > 0 ? (topicStats.correct / topicStats.total) * 100 : 0;
-                        return `
+                        return html`
                             <div class="topic-breakdown-item">
                                 <span>${topic}</span>
                                 <span class="topic-stats">${topicStats.correct}/${topicStats.total} (${topicAccuracy.toFixed(0)}%)</span>
                             </div>
                         `;
-                    }).join('')}
+                    })}
                 </div>
             </details>
         `;
-    }).join('');
+    });
+}
+
+function renderSubjectBreakdown(attempt: TestAttempt) {
+    setHTML(subjectBreakdownContainer, createSubjectBreakdownHTML(attempt));
 }
 
 // Topic-wise analysis with graph
-function renderTopicWiseAnalysis(attempt: TestAttempt) {
-    const topicWiseContainer = document.getElementById('topic-wise-view');
-    if (!topicWiseContainer) return;
-    
+function createTopicWiseHTML(attempt: TestAttempt): SafeHTML {
     const topicStats: { [key: string]: { correct: number, total: number, subject: string, avgTime: number, totalTime: number } } = {};
     
     attempt.fullTest.questions.forEach((q, i) => {
@@ -2037,7 +6910,7 @@ function renderTopicWiseAnalysis(attempt: TestAttempt) {
         topicStats[topic].total++;
         topicStats[topic].totalTime += attempt.timePerQuestion[i] || 0;
         
-        if (attempt.userAnswers[i] === q.answer) {
+        if (isCorrectAnswer(q, attempt.userAnswers[i])) {
             topicStats[topic].correct++;
         }
     });
@@ -2060,25 +6933,25 @@ function renderTopicWiseAnalysis(attempt: TestAttempt) {
     const strongTopics = sortedTopics.filter(t => t.accuracy >= 70).slice(0, 3);
     const weakTopics = sortedTopics.filter(t => t.accuracy < 50).slice(-3).reverse();
     
-    topicWiseContainer.innerHTML = `
+    return html`
         <div class="topic-insights-grid">
             <div class="insight-card strength">
                 <h4><span class="material-symbols-outlined">trending_up</span> Strong Topics</h4>
-                ${strongTopics.length > 0 ? strongTopics.map(t => `
+                ${strongTopics.length > 0 ? strongTopics.map(t => html`
                     <div class="insight-item">
                         <span class="topic-name">${t.topic}</span>
                         <span class="topic-score" style="color: var(--success-color)">${t.accuracy.toFixed(0)}%</span>
                     </div>
-                `).join('') : '<p class="no-data">No strong topics identified yet</p>'}
+                `) : html`<p class="no-data">No strong topics identified yet</p>`}
             </div>
             <div class="insight-card weakness">
                 <h4><span class="material-symbols-outlined">trending_down</span> Need Improvement</h4>
-                ${weakTopics.length > 0 ? weakTopics.map(t => `
+                ${weakTopics.length > 0 ? weakTopics.map(t => html`
                     <div class="insight-item">
                         <span class="topic-name">${t.topic}</span>
                         <span class="topic-score" style="color: var(--danger-color)">${t.accuracy.toFixed(0)}%</span>
                     </div>
-                `).join('') : '<p class="no-data">Great! No weak topics found</p>'}
+                `) : html`<p class="no-data">Great! No weak topics found</p>`}
             </div>
         </div>
         
@@ -2086,7 +6959,7 @@ function renderTopicWiseAnalysis(attempt: TestAttempt) {
         <div class="topic-chart-container">
             ${sortedTopics.map(t => {
                 const barColor = t.accuracy >= 70 ? 'var(--success-color)' : t.accuracy >= 50 ? 'var(--warning-color)' : 'var(--danger-color)';
-                return `
+                return html`
                     <div class="topic-chart-row">
                         <div class="topic-chart-label">
                             <span class="topic-name">${t.topic}</span>
@@ -2098,16 +6971,19 @@ function renderTopicWiseAnalysis(attempt: TestAttempt) {
                         </div>
                     </div>
                 `;
-            }).join('')}
+            })}
         </div>
     `;
 }
 
+function renderTopicWiseAnalysis(attempt: TestAttempt) {
+    const topicWiseContainer = document.getElementById('topic-wise-view');
+    if (!topicWiseContainer) return;
+    setHTML(topicWiseContainer, createTopicWiseHTML(attempt));
+}
+
 // Bias Analysis - Detect if user tends to mark same options repeatedly
-function renderBiasAnalysis(attempt: TestAttempt) {
-    const biasContainer = document.getElementById('bias-analysis-view');
-    if (!biasContainer) return;
-    
+function createBiasAnalysisHTML(attempt: TestAttempt): SafeHTML {
     // Count option selections
     const optionCounts = [0, 0, 0, 0]; // A, B, C, D
     const correctOptionCounts = [0, 0, 0, 0];
@@ -2115,12 +6991,14 @@ function renderBiasAnalysis(attempt: TestAttempt) {
     let maxConsecutive = 0;
     let prevAnswer: number | null = null;
     let totalAnswered = 0;
+    let singleChoiceQuestions = 0;
     
     // Track pattern of answers
     const answerPattern: string[] = [];
     
     attempt.userAnswers.forEach((answer, i) => {
-        if (answer !== null) {
+        // Multiple-correct selections say nothing about a favourite option, so only single choices count
+        if (typeof answer === 'number') {
             optionCounts[answer]++;
             totalAnswered++;
             answerPattern.push(String.fromCharCode(65 + answer));
@@ -2135,15 +7013,18 @@ function renderBiasAnalysis(attempt: TestAttempt) {
             prevAnswer = answer;
         }
         
-        // Track correct answer distribution
-        const correctAns = attempt.fullTest.questions[i].answer;
-        correctOptionCounts[correctAns]++;
+        // Track correct answer distribution, over the same single-choice questions as the selections above
+        const q = attempt.fullTest.questions[i];
+        if (questionTypeOf(q) !== 'multiple') {
+            correctOptionCounts[q.answer]++;
+            singleChoiceQuestions++;
+        }
     });
     
     // Calculate bias metrics
     const expectedPct = 25; // Expected if random
     const optionPcts = optionCounts.map(c => totalAnswered > 0 ? (c / totalAnswered) * 100 : 0);
-    const correctPcts = correctOptionCounts.map(c => (c / attempt.totalQuestions) * 100);
+    const correctPcts = correctOptionCounts.map(c => singleChoiceQuestions > 0 ? (c / singleChoiceQuestions) * 100 : 0);
     
     // Detect bias - if any option is selected significantly more than 30%
     const biasedOptions = optionPcts
@@ -2166,23 +7047,23 @@ function renderBiasAnalysis(attempt: TestAttempt) {
     const changeRate = totalAnswered > 1 ? (changeCount / (totalAnswered - 1)) * 100 : 0;
     
     // Generate bias report
-    let biasReport = '';
+    const biasReport: SafeHTML[] = [];
     let biasLevel = 'low';
     let biasColor = 'var(--success-color)';
     
     if (hasBias) {
         biasLevel = biasedOptions[0].pct > 45 ? 'high' : 'moderate';
         biasColor = biasLevel === 'high' ? 'var(--danger-color)' : 'var(--warning-color)';
-        biasReport = `You tend to select option <strong>${biasedOptions[0].option}</strong> more frequently (${biasedOptions[0].pct.toFixed(1)}% of answers).`;
+        biasReport.push(html`You tend to select option <strong>${biasedOptions[0].option}</strong> more frequently (${biasedOptions[0].pct.toFixed(1)}% of answers).`);
     } else {
-        biasReport = 'Your answer distribution is well-balanced across all options.';
+        biasReport.push(html`Your answer distribution is well-balanced across all options.`);
     }
     
     if (maxConsecutive >= 4) {
-        biasReport += ` You selected the same option <strong>${maxConsecutive} times in a row</strong>, which might indicate guessing.`;
+        biasReport.push(html` You selected the same option <strong>${maxConsecutive} times in a row</strong>, which might indicate guessing.`);
     }
     
-    biasContainer.innerHTML = `
+    return html`
         <div class="bias-summary-card" style="border-left-color: ${biasColor}">
             <div class="bias-header">
                 <span class="material-symbols-outlined">${hasBias ? 'psychology_alt' : 'verified'}</span>
@@ -2195,7 +7076,7 @@ function renderBiasAnalysis(attempt: TestAttempt) {
             <div class="bias-chart-card">
                 <h5>Your Answer Distribution</h5>
                 <div class="option-distribution">
-                    ${['A', 'B', 'C', 'D'].map((opt, i) => `
+                    ${['A', 'B', 'C', 'D'].map((opt, i) => html`
                         <div class="option-dist-item">
                             <div class="option-label-box ${optionPcts[i] > 35 ? 'biased' : ''}">${opt}</div>
                             <div class="option-bar-container">
@@ -2203,14 +7084,14 @@ function renderBiasAnalysis(attempt: TestAttempt) {
                             </div>
                             <span class="option-pct">${optionPcts[i].toFixed(1)}%</span>
                         </div>
-                    `).join('')}
+                    `)}
                 </div>
             </div>
             
             <div class="bias-chart-card">
                 <h5>Correct Answer Distribution</h5>
                 <div class="option-distribution">
-                    ${['A', 'B', 'C', 'D'].map((opt, i) => `
+                    ${['A', 'B', 'C', 'D'].map((opt, i) => html`
                         <div class="option-dist-item">
                             <div class="option-label-box correct-dist">${opt}</div>
                             <div class="option-bar-container">
@@ -2218,7 +7099,7 @@ function renderBiasAnalysis(attempt: TestAttempt) {
                             </div>
                             <span class="option-pct">${correctPcts[i].toFixed(1)}%</span>
                         </div>
-                    `).join('')}
+                    `)}
                 </div>
             </div>
         </div>
@@ -2245,11 +7126,59 @@ function renderBiasAnalysis(attempt: TestAttempt) {
     `;
 }
 
+function renderBiasAnalysis(attempt: TestAttempt) {
+    const biasContainer = document.getElementById('bias-analysis-view');
+    if (!biasContainer) return;
+    setHTML(biasContainer, createBiasAnalysisHTML(attempt));
+}
+
+// Section Breakdown
+// Per-section score, accuracy and time for sectioned tests; the Sections tab is hidden otherwise
+function renderSectionBreakdown(attempt: TestAttempt) {
+    sectionBreakdownTab.classList.toggle('hidden', !attempt.fullTest.sections);
+    if (!attempt.fullTest.sections) {
+        sectionBreakdownContainer.innerHTML = '';
+        return;
+    }
+    setHTML(sectionBreakdownContainer, createSectionBreakdownHTML(attempt));
+}
+
+function createSectionBreakdownHTML(attempt: TestAttempt): SafeHTML {
+    const test = attempt.fullTest;
+    return html`<div class="section-results-grid">${sectionRanges(test).map((range, sectionIndex) => {
+        let correct = 0, incorrect = 0, score = 0;
+        for (let i = range.start; i < range.end; i++) {
+            const answer = attempt.userAnswers[i];
+            if (answer === null) continue;
+            if (isCorrectAnswer(test.questions[i], answer)) {
+                correct++;
+                score += range.section.marksPerQuestion;
+            } else {
+                incorrect++;
+                score -= range.section.negativeMarking;
+            }
+        }
+        const total = range.end - range.start;
+        const maxScore = total * range.section.marksPerQuestion;
+        const attempted = correct + incorrect;
+        const accuracy = attempted > 0 ? (correct / attempted) * 100 : 0;
+        const timeUsed = attempt.sectionTimes?.[sectionIndex] ?? 0;
+        return html`
+            <div class="section-result-card">
+                <h4>${range.section.name}</h4>
+                <div class="section-result-score">${score.toFixed(2)} <span>/ ${maxScore.toFixed(2)}</span></div>
+                <div class="stat-row-mini"><span class="dot-success"></span> Correct: ${correct}</div>
+                <div class="stat-row-mini"><span class="dot-danger"></span> Incorrect: ${incorrect}</div>
+                <div class="stat-row-mini"><span class="dot-muted"></span> Unanswered: ${total - attempted}</div>
+                <div class="stat-row-mini">Accuracy: ${accuracy.toFixed(1)}%</div>
+                <div class="stat-row-mini">Time: ${(timeUsed / 60).toFixed(1)} of ${range.section.duration} min</div>
+            </div>
+        `;
+    })}</div>`;
+}
+
 // Difficulty Analysis
-function renderDifficultyAnalysis(attempt: TestAttempt) {
-    const difficultyContainer = document.getElementById('difficulty-analysis-view');
-    if (!difficultyContainer) return;
-    
+function createDifficultyAnalysisHTML(attempt: TestAttempt): SafeHTML {
     // Categorize questions by time taken (as proxy for difficulty)
     const avgTime = attempt.timePerQuestion.reduce((a, b) => a + b, 0) / attempt.timePerQuestion.length;
     
@@ -2258,7 +7187,7 @@ function renderDifficultyAnalysis(attempt: TestAttempt) {
     const slowQuestions: { idx: number, time: number, correct: boolean }[] = [];
     
     attempt.timePerQuestion.forEach((time, i) => {
-        const correct = attempt.userAnswers[i] === attempt.fullTest.questions[i].answer;
+        const correct = isCorrectAnswer(attempt.fullTest.questions[i], attempt.userAnswers[i]);
         const item = { idx: i, time, correct };
         
         if (time < avgTime * 0.6) {
@@ -2276,8 +7205,17 @@ function renderDifficultyAnalysis(attempt: TestAttempt) {
     
     // Determine if more time = better accuracy
     const timeVsAccuracyTrend = slowAccuracy > quickAccuracy ? 'positive' : slowAccuracy < quickAccuracy ? 'negative' : 'neutral';
+
+    // Accuracy at each calibrated difficulty level, which is measured across all attempts rather than this one
+    const levelStats = DIFFICULTY_LEVELS.map(level => {
+        const indices = attempt.fullTest.questions
+            .map((q, i) => estimateDifficulty(q).level === level ? i : -1)
+            .filter(i => i !== -1);
+        const correct = indices.filter(i => isCorrectAnswer(attempt.fullTest.questions[i], attempt.userAnswers[i])).length;
+        return { level, total: indices.length, correct };
+    });
     
-    difficultyContainer.innerHTML = `
+    return html`
         <div class="difficulty-overview">
             <h4><span class="material-symbols-outlined">analytics</span> Time vs Accuracy Analysis</h4>
             <p class="analysis-description">Understanding how time spent correlates with your accuracy</p>
@@ -2347,16 +7285,33 @@ function renderDifficultyAnalysis(attempt: TestAttempt) {
                     : 'Your accuracy is consistent regardless of time spent. Great balanced approach!'}</p>
             </div>
         </div>
+
+        <h4 style="margin-top: 1.5rem;">Accuracy by Calibrated Difficulty</h4>
+        <div class="difficulty-level-grid">
+            ${levelStats.map(stat => html`
+                <div class="difficulty-level-card">
+                    <span class="difficulty-badge ${stat.level}">${DIFFICULTY_LABELS[stat.level]}</span>
+                    <div class="big-stat">${stat.correct}/${stat.total}</div>
+                    <span>${stat.total > 0 ? `${((stat.correct / stat.total) * 100).toFixed(0)}% correct` : 'No questions'}</span>
+                </div>
+            `)}
+        </div>
     `;
 }
 
-function createQuestionReviewHTML(q: Question, index: number, attempt: TestAttempt): string {
+function renderDifficultyAnalysis(attempt: TestAttempt) {
+    const difficultyContainer = document.getElementById('difficulty-analysis-view');
+    if (!difficultyContainer) return;
+    setHTML(difficultyContainer, createDifficultyAnalysisHTML(attempt));
+}
+
+function createQuestionReviewHTML(q: Question, index: number, attempt: TestAttempt): SafeHTML {
     const userAnswer = attempt.userAnswers[index];
     let userStatus = 'Unanswered';
     let statusClass = 'unanswered';
     let isIncorrect = false;
 
-    if (userAnswer === q.answer) {
+    if (isCorrectAnswer(q, userAnswer)) {
         userStatus = 'Correct';
         statusClass = 'correct';
     } else if (userAnswer !== null) {
@@ -2367,18 +7322,19 @@ function createQuestionReviewHTML(q: Question, index: number, attempt: TestAttem
 
     const optionsHTML = q.options.map((opt, optIndex) => {
         let li_class = 'detail-option-item';
-        if (optIndex === q.answer) li_class += ' correct';
-        if (optIndex === userAnswer && isIncorrect) li_class += ' user-incorrect';
-        return `<li class="${li_class}">${opt}</li>`;
-    }).join('');
+        if (correctOptionIndices(q).includes(optIndex)) li_class += ' correct';
+        if (isOptionChosen(userAnswer, optIndex) && isIncorrect) li_class += ' user-incorrect';
+        return html`<li class="${li_class}">${opt}</li>`;
+    });
 
-    const analysisButtonHTML = isIncorrect ? `
+    // Deeper analysis explains one wrong option, so it is not offered for multiple-correct selections
+    const analysisButtonHTML = isIncorrect && typeof userAnswer === 'number' ? html`
         <button class="deeper-analysis-btn" data-question-index="${index}">
             <span class="material-symbols-outlined">psychology</span> Get Deeper AI Analysis
         </button>
     ` : '';
 
-    return `
+    return html`
         <details class="results-detail-item status-${statusClass}">
             <summary class="question-summary-header">
                 <div class="summary-left">
@@ -2397,11 +7353,11 @@ function createQuestionReviewHTML(q: Question, index: number, attempt: TestAttem
                      <span class="question-meta-full">${q.subject} > ${q.topic}</span>
                      <span class="time-spent-badge">Time: ${attempt.timePerQuestion[index].toFixed(1)}s</span>
                 </div>
-                <p class="question-text-full">${q.question}</p>
+                <div class="question-text-full">${renderQuestionStem(q)}</div>
                 <ul class="detail-options">${optionsHTML}</ul>
                 <div class="explanation-box">
                     <h4>Explanation</h4>
-                    <p>${q.explanation}</p>
+                    ${renderExplanationText(q.explanation)}
                 </div>
                 <div class="deeper-analysis-controls">${analysisButtonHTML}</div>
                 <div class="deeper-analysis-container hidden" data-analysis-for="${index}"></div>
@@ -2410,121 +7366,78 @@ function createQuestionReviewHTML(q: Question, index: number, attempt: TestAttem
     `;
 }
 
+// Answered, but not correctly; unanswered questions aren't mistakes
+function isMistake(attempt: TestAttempt, index: number): boolean {
+    const userAnswer = attempt.userAnswers[index];
+    return userAnswer !== null && !isCorrectAnswer(attempt.fullTest.questions[index], userAnswer);
+}
+
 function renderMistakesReview(attempt: TestAttempt) {
     const mistakesHTML = attempt.fullTest.questions
-        .map((q, index) => {
-            const userAnswer = attempt.userAnswers[index];
-            const isMistake = userAnswer !== null && userAnswer !== q.answer;
-            return isMistake ? createQuestionReviewHTML(q, index, attempt) : '';
-        })
-        .join('');
+        .map((q, index) => isMistake(attempt, index) ? createQuestionReviewHTML(q, index, attempt) : null)
+        .filter((review): review is SafeHTML => review !== null);
 
-    if (!mistakesHTML) {
-        mistakesReviewContainer.innerHTML = `<p class="placeholder">No incorrect answers to review. Great job!</p>`;
+    if (mistakesHTML.length === 0) {
+        setHTML(mistakesReviewContainer, html`<p class="placeholder">No incorrect answers to review. Great job!</p>`);
         return;
     }
 
-    mistakesReviewContainer.innerHTML = mistakesHTML;
+    setHTML(mistakesReviewContainer, mistakesHTML);
+    loadQuestionImages(mistakesReviewContainer);
 }
 
 function renderAllQuestionsReview(attempt: TestAttempt) {
-    allQuestionsReviewContainer.innerHTML = attempt.fullTest.questions
-        .map((q, index) => createQuestionReviewHTML(q, index, attempt))
-        .join('');
+    setHTML(allQuestionsReviewContainer, attempt.fullTest.questions
+        .map((q, index) => createQuestionReviewHTML(q, index, attempt)));
+    loadQuestionImages(allQuestionsReviewContainer);
 }
 
 
 async function handleDeeperAnalysis(button: HTMLElement) {
-    if (!ai || !currentAttemptForReport) return;
+    if (!currentAttemptForReport) return;
 
     const questionIndex = parseInt(button.dataset.questionIndex, 10);
     const question = currentAttemptForReport.fullTest.questions[questionIndex];
     const userAnswerIndex = currentAttemptForReport.userAnswers[questionIndex];
 
-    if (userAnswerIndex === null) return; // Should not happen if button is only on incorrect answers
+    if (typeof userAnswerIndex !== 'number') return; // Should not happen if button is only on incorrect single answers
 
     const controlsContainer = button.parentElement;
     const analysisContainer = controlsContainer.nextElementSibling as HTMLElement;
 
-    controlsContainer.innerHTML = `<div class="spinner-small"></div><span>Analyzing...</span>`;
+    setHTML(controlsContainer, html`<div class="spinner-small"></div><span>Analyzing...</span>`);
 
     try {
         const userAnswerText = question.options[userAnswerIndex];
-        const correctAnswerText = question.options[question.answer];
-        const otherOptions = question.options.filter((_, i) => i !== question.answer && i !== userAnswerIndex);
-
-        const prompt = `
-            Analyze the following competitive exam (UPSC-style) question. The user incorrectly chose the option: "${userAnswerText}". The correct answer is: "${correctAnswerText}".
-            
-            Question: "${question.question}"
-
-            Please provide a detailed analysis in a simple JSON format. The analysis should explain:
-            1.  Why the user's selected answer ("${userAnswerText}") is incorrect.
-            2.  A brief analysis of why each of the other incorrect options are also wrong.
-            
-            Do not explain why the correct answer is correct, as the user already has a separate explanation for that. Focus only on the incorrect options.
-        `;
-
-        const analysisSchema = {
-            type: Type.OBJECT,
-            properties: {
-                userAnswerAnalysis: { 
-                    type: Type.STRING, 
-                    description: `A detailed explanation of why the user's choice, '${userAnswerText}', is incorrect.`
-                },
-                otherOptionsAnalysis: {
-                    type: Type.ARRAY,
-                    description: "An analysis of the other incorrect options.",
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            option: { type: Type.STRING, description: "The text of the incorrect option." },
-                            reason: { type: Type.STRING, description: "The reason why this option is incorrect." }
-                        },
-                         required: ["option", "reason"]
-                    }
-                }
-            },
-            required: ["userAnswerAnalysis", "otherOptionsAnalysis"]
-        };
-
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: analysisSchema,
-            },
-        });
+        const { provider, model } = await getAIProvider();
+        const result = await provider.analyzeMistake({ question, userAnswerIndex }, model);
 
-        const result = JSON.parse(response.text);
-
-        let analysisHTML = `
+        const analysisHTML = [html`
             <h4><span class="material-symbols-outlined">neurology</span> AI Deeper Analysis</h4>
             <div class="analysis-section">
                 <h5>Analysis of Your Answer ("${userAnswerText}")</h5>
                 <p>${result.userAnswerAnalysis}</p>
             </div>
-        `;
+        `];
         
         if (result.otherOptionsAnalysis && result.otherOptionsAnalysis.length > 0) {
-             analysisHTML += `
+             analysisHTML.push(html`
                 <div class="analysis-section">
                     <h5>Analysis of Other Options</h5>
                     <ul>
-                        ${result.otherOptionsAnalysis.map(opt => `<li><strong>${opt.option}:</strong> ${opt.reason}</li>`).join('')}
+                        ${result.otherOptionsAnalysis.map(opt => html`<li><strong>${opt.option}:</strong> ${opt.reason}</li>`)}
                     </ul>
                 </div>
-             `;
+             `);
         }
 
-        analysisContainer.innerHTML = analysisHTML;
+        setHTML(analysisContainer, analysisHTML);
         analysisContainer.classList.remove('hidden');
         controlsContainer.classList.add('hidden'); // Hide the button/loader
 
     } catch (error) {
         console.error("Deeper Analysis Error:", error);
-        analysisContainer.innerHTML = `<p class="error">Could not generate analysis. Please try again later.</p>`;
+        setHTML(analysisContainer, html`<p class="error">Could not generate analysis. Please try again later.</p>`);
         analysisContainer.classList.remove('hidden');
         controlsContainer.innerHTML = ''; // Clear loader
         controlsContainer.appendChild(button); // Restore button
@@ -2545,11 +7458,19 @@ interface SubjectAnalytics {
 // Global variable to store aggregated data for the modal
 let aggregatedSubjectData: { [key: string]: SubjectAnalytics } = {};
 
-function renderAnalyticsDashboard() {
-    const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
+async function renderAnalyticsDashboard() {
+    let history: TestAttempt[];
+    try {
+        history = await getAttempts();
+    } catch (error) {
+        console.error("Error loading attempts:", error);
+        setHTML(analyticsStatsGrid, html`<p class="placeholder" style="grid-column: 1/-1;">Could not load your analytics. ${error.message}</p>`);
+        subjectMasteryContainer.innerHTML = '';
+        return;
+    }
     
     if (history.length === 0) {
-        analyticsStatsGrid.innerHTML = `<p class="placeholder" style="grid-column: 1/-1;">No data available. Complete some tests to see your analytics.</p>`;
+        setHTML(analyticsStatsGrid, html`<p class="placeholder" style="grid-column: 1/-1;">No data available. Complete some tests to see your analytics.</p>`);
         subjectMasteryContainer.innerHTML = '';
         return;
     }
@@ -2558,6 +7479,7 @@ function renderAnalyticsDashboard() {
     aggregatedSubjectData = {};
     let totalTests = history.length;
     let totalQuestions = 0;
+    const uniqueQuestions = new Set<string>(); // keyed by bank ID, so a question repeated across tests counts once
     let totalCorrect = 0;
     let totalScoreSum = 0;
     let totalTimeTaken = 0;
@@ -2571,10 +7493,10 @@ function renderAnalyticsDashboard() {
     const sortedHistory = [...history].sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
     
     sortedHistory.forEach((attempt, index) => {
-        if (attempt.score >= 50) {
+        if (hasQualified(attempt)) {
             tempStreak++;
             bestStreak = Math.max(bestStreak, tempStreak);
-            if (index === 0 || (index > 0 && sortedHistory[index - 1].score >= 50)) {
+            if (index === 0 || (index > 0 && hasQualified(sortedHistory[index - 1]))) {
                 currentStreak = tempStreak;
             }
         } else {
@@ -2601,6 +7523,7 @@ function renderAnalyticsDashboard() {
 
         // Aggregate Subject and Topic Stats
         attempt.fullTest.questions.forEach((q, i) => {
+            uniqueQuestions.add(q.id || normalizeQuestionText(q.question));
             const subject = q.subject || 'Uncategorized';
             const topic = q.topic || 'General';
             
@@ -2617,7 +7540,7 @@ function renderAnalyticsDashboard() {
             }
             aggregatedSubjectData[subject].topics[topic].total++;
 
-            if (attempt.userAnswers[i] === q.answer) {
+            if (isCorrectAnswer(q, attempt.userAnswers[i])) {
                 aggregatedSubjectData[subject].correct++;
                 aggregatedSubjectData[subject].topics[topic].correct++;
             }
@@ -2633,7 +7556,7 @@ function renderAnalyticsDashboard() {
     const trendColor = improvementTrend > 2 ? 'var(--success-color)' : improvementTrend < -2 ? 'var(--danger-color)' : 'var(--text-muted)';
 
     // Render Stats Grid with Pro Features
-    analyticsStatsGrid.innerHTML = `
+    setHTML(analyticsStatsGrid, html`
         <div class="stat-card">
             <span class="material-symbols-outlined stat-icon">history</span>
             <div class="stat-value">${totalTests}</div>
@@ -2672,12 +7595,13 @@ function renderAnalyticsDashboard() {
         <div class="stat-card questions">
             <span class="material-symbols-outlined stat-icon" style="color: var(--info-color);">quiz</span>
             <div class="stat-value" style="color: var(--info-color);">${totalQuestions}</div>
-            <div class="stat-label">Questions Done</div>
+            <div class="stat-label">Questions Done (${uniqueQuestions.size} unique)</div>
         </div>
-    `;
+    `);
     
     // Add Score Trend Graph
     renderScoreTrendGraph(sortedHistory);
+    renderWeakAreasPanel();
 
     // 4. Render Subject Mastery Cards (Interactive)
     const sortedSubjects = Object.entries(aggregatedSubjectData)
@@ -2689,9 +7613,9 @@ function renderAnalyticsDashboard() {
         }))
         .sort((a, b) => b.accuracy - a.accuracy);
 
-    subjectMasteryContainer.innerHTML = sortedSubjects.map(s => {
+    setHTML(subjectMasteryContainer, sortedSubjects.map(s => {
         const accuracyColor = s.accuracy > 60 ? 'var(--success-color)' : s.accuracy > 40 ? 'var(--warning-color)' : 'var(--danger-color)';
-        return `
+        return html`
         <div class="subject-analytics-card" data-subject="${s.subject}">
             <div class="subject-card-header">
                 <h4>${s.subject}</h4>
@@ -2710,30 +7634,30 @@ function renderAnalyticsDashboard() {
                 </div>
             </div>
         </div>
-    `}).join('');
+    `}));
 }
 
 // Score Trend Graph
 function renderScoreTrendGraph(sortedHistory: TestAttempt[]) {
     const trendContainer = document.createElement('div');
     trendContainer.className = 'report-card score-trend-card';
-    trendContainer.innerHTML = `
+    setHTML(trendContainer, html`
         <h3><span class="material-symbols-outlined">show_chart</span> Score Trend</h3>
         <div class="score-trend-graph">
             ${sortedHistory.slice(0, 10).reverse().map((attempt, i) => {
                 const height = Math.max(attempt.score, 5);
                 const barColor = attempt.score >= 60 ? 'var(--success-color)' : attempt.score >= 40 ? 'var(--warning-color)' : 'var(--danger-color)';
                 const date = new Date(attempt.completedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
-                return `
+                return html`
                     <div class="trend-bar-container" title="${attempt.testName}: ${attempt.score.toFixed(1)}%">
                         <div class="trend-bar" style="height: ${height}%; background: ${barColor}"></div>
                         <span class="trend-label">${date}</span>
                     </div>
                 `;
-            }).join('')}
+            })}
         </div>
         <p class="trend-caption">Last ${Math.min(sortedHistory.length, 10)} tests performance</p>
-    `;
+    `);
     
     // Insert after stats grid
     analyticsStatsGrid.parentNode?.insertBefore(trendContainer, analyticsStatsGrid.nextSibling);
@@ -2768,7 +7692,7 @@ function openSubjectModal(subject: string) {
         }))
         .sort((a, b) => b.accuracy - a.accuracy);
 
-    modalBody.innerHTML = `
+    setHTML(modalBody, html`
         <div class="modal-summary-grid">
             <div class="modal-stat-box">
                 <span class="label">Overall Accuracy</span>
@@ -2788,7 +7712,7 @@ function openSubjectModal(subject: string) {
         <div class="topic-grid-container">
             ${sortedTopics.map(t => {
                 const topicColor = t.accuracy > 60 ? 'var(--success-color)' : t.accuracy > 40 ? 'var(--warning-color)' : 'var(--danger-color)';
-                return `
+                return html`
                 <div class="topic-stat-card">
                     <div class="topic-header">
                         <span class="topic-name">${t.topic}</span>
@@ -2801,9 +7725,642 @@ function openSubjectModal(subject: string) {
                         ${t.correct}/${t.total} Correct
                     </div>
                 </div>
-            `}).join('')}
+            `})}
         </div>
-    `;
+    `);
 
     analyticsModal.classList.remove('hidden');
-}
\ No newline at end of file
+}
+
+
+// --- Question Difficulty ---
+// Every question starts from the difficulty the AI or the author gave it, and is calibrated from the answers in all
+// attempts with an Elo-style Rasch model: the user has an ability and each question a rating on the same logit scale,
+// and every answer moves both by how surprising it was. Correct but slow answers count as partly correct.
+const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = { easy: 'Easy', medium: 'Medium', hard: 'Hard' };
+const DIFFICULTY_PRIOR_RATINGS: Record<DifficultyLevel, number> = { easy: -1, medium: 0, hard: 1 };
+const DIFFICULTY_LEVEL_CUTOFF = 0.5; // ratings above this are hard, below its negative easy
+const QUESTION_K_FACTOR = 0.6; // step for a question's first answer; it shrinks as answers accumulate
+const ABILITY_K_FACTOR = 0.1;
+const SLOW_ANSWER_PENALTY = 0.3; // taken off a correct answer that took twice the attempt's median time or longer
+
+interface DifficultyEstimate {
+    rating: number; // 0 is a question answered correctly half the time at the user's starting ability
+    responses: number; // answers the rating was calibrated from; 0 means it is still the prior
+}
+
+interface DifficultyMix {
+    id: string;
+    label: string;
+    weights: Record<DifficultyLevel, number> | null; // null takes questions regardless of difficulty
+}
+
+const DIFFICULTY_MIXES: DifficultyMix[] = [
+    { id: 'any', label: 'Any difficulty', weights: null },
+    { id: 'balanced', label: 'Balanced (30% easy, 40% medium, 30% hard)', weights: { easy: 30, medium: 40, hard: 30 } },
+    { id: 'easier', label: 'Easier (50% easy, 35% medium, 15% hard)', weights: { easy: 50, medium: 35, hard: 15 } },
+    { id: 'harder', label: 'Harder (15% easy, 35% medium, 50% hard)', weights: { easy: 15, medium: 35, hard: 50 } },
+];
+
+let difficultyEstimates = new Map<string, DifficultyEstimate>(); // by calibrationId(), see refreshDifficultyEstimates()
+
+function calibrationId(question: Question): string {
+    return question.id || `fp_${questionFingerprint(question)}`;
+}
+
+function priorRating(question: Question): number {
+    return DIFFICULTY_PRIOR_RATINGS[question.difficulty ?? 'medium'];
+}
+
+function difficultyLevelOf(rating: number): DifficultyLevel {
+    if (rating > DIFFICULTY_LEVEL_CUTOFF) return 'hard';
+    if (rating < -DIFFICULTY_LEVEL_CUTOFF) return 'easy';
+    return 'medium';
+}
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// 1 for a correct answer at the attempt's usual pace, down to 1 - SLOW_ANSWER_PENALTY when much slower; 0 when wrong
+function answerScore(question: Question, answer: UserAnswer, time: number, typicalTime: number): number {
+    if (!isCorrectAnswer(question, answer)) return 0;
+    if (typicalTime <= 0) return 1;
+    return 1 - SLOW_ANSWER_PENALTY * Math.min(1, Math.max(0, time / typicalTime - 1));
+}
+
+// Replays the attempts oldest first. Review sessions are left out: they repeat questions the user has just studied.
+function calibrateDifficulty(attempts: TestAttempt[]): Map<string, DifficultyEstimate> {
+    const estimates = new Map<string, DifficultyEstimate>();
+    let ability = 0;
+
+    [...attempts]
+        .filter(a => !a.fullTest.isReview)
+        .sort((a, b) => new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime())
+        .forEach(attempt => {
+            const isAnswered = (i: number) => attempt.userAnswers[i] !== null && attempt.userAnswers[i] !== undefined;
+            const typicalTime = median(attempt.timePerQuestion.filter((_, i) => isAnswered(i)));
+            let abilityChange = 0;
+
+            attempt.fullTest.questions.forEach((question, index) => {
+                // A skipped question says little about how hard it is, so only answers count
+                if (!isAnswered(index)) return;
+                const id = calibrationId(question);
+                const estimate = estimates.get(id) ?? { rating: priorRating(question), responses: 0 };
+                const expected = 1 / (1 + Math.exp(estimate.rating - ability));
+                const surprise = answerScore(question, attempt.userAnswers[index], attempt.timePerQuestion[index] || 0, typicalTime) - expected;
+                const step = QUESTION_K_FACTOR / (1 + 0.2 * estimate.responses);
+                estimates.set(id, { rating: estimate.rating - step * surprise, responses: estimate.responses + 1 });
+                abilityChange += ABILITY_K_FACTOR * surprise;
+            });
+            // Applied once per attempt, so the order of questions within a test doesn't change the ratings
+            ability += abilityChange;
+        });
+    return estimates;
+}
+
+async function refreshDifficultyEstimates() {
+    difficultyEstimates = calibrateDifficulty(await getAttempts());
+}
+
+function estimateDifficulty(question: Question): DifficultyEstimate & { level: DifficultyLevel } {
+    const estimate = difficultyEstimates.get(calibrationId(question)) ?? { rating: priorRating(question), responses: 0 };
+    return { ...estimate, level: difficultyLevelOf(estimate.rating) };
+}
+
+function describeDifficulty(question: Question): string {
+    const { rating, responses } = estimateDifficulty(question);
+    if (responses > 0) return `Calibrated from ${responses} answer${responses === 1 ? '' : 's'} (rating ${rating.toFixed(2)})`;
+    return question.difficulty ? 'Estimated when the question was created' : 'No difficulty estimate yet';
+}
+
+function renderDifficultyBadge(question: Question): SafeHTML {
+    const { level, responses } = estimateDifficulty(question);
+    if (responses === 0 && !question.difficulty) {
+        return html`<span class="difficulty-badge unrated" title="${describeDifficulty(question)}">Unrated</span>`;
+    }
+    return html`<span class="difficulty-badge ${level}" title="${describeDifficulty(question)}">${DIFFICULTY_LABELS[level]}</span>`;
+}
+
+function renderDifficultyEditor(q: Question, index: number): SafeHTML {
+    return html`
+        <label for="q-difficulty-${index}">Difficulty</label>
+        <select id="q-difficulty-${index}" class="q-difficulty-select">
+            <option value="" ${q.difficulty ? '' : 'selected'}>Unrated</option>
+            ${DIFFICULTY_LEVELS.map(level => html`<option value="${level}" ${q.difficulty === level ? 'selected' : ''}>${DIFFICULTY_LABELS[level]}</option>`)}
+        </select>
+        <p class="difficulty-note">${renderDifficultyBadge(q)} ${describeDifficulty(q)}. The setting above is the starting estimate; answers in your tests refine it.</p>
+    `;
+}
+
+// Takes `count` of the candidates, in their order, split over the levels by the mix; a level that runs short is
+// made up from the others
+function pickByDifficulty(candidates: Question[], count: number, mix: DifficultyMix): Question[] {
+    const weights = mix.weights;
+    if (!weights) return candidates.slice(0, count);
+    const byWeight = [...DIFFICULTY_LEVELS].sort((a, b) => weights[b] - weights[a]);
+    const targets = count >= DIFFICULTY_LEVELS.length
+        ? allocateByWeight(DIFFICULTY_LEVELS.map(level => weights[level]), count)
+        : DIFFICULTY_LEVELS.map(level => byWeight.indexOf(level) < count ? 1 : 0);
+    const picked = DIFFICULTY_LEVELS.flatMap((level, i) =>
+        candidates.filter(q => estimateDifficulty(q).level === level).slice(0, targets[i]));
+    const rest = candidates.filter(q => !picked.includes(q));
+    return [...picked, ...rest.slice(0, count - picked.length)];
+}
+
+function selectedDifficultyMix(select: HTMLSelectElement): DifficultyMix {
+    return DIFFICULTY_MIXES.find(m => m.id === select.value) ?? DIFFICULTY_MIXES[0];
+}
+
+// Prompt sentence asking the AI for the mix's share of each level, so generated questions carry a matching prior
+function difficultyGuidance(mix: DifficultyMix, count: number): string {
+    const weights = mix.weights;
+    if (!weights) return '';
+    const total = DIFFICULTY_LEVELS.reduce((sum, level) => sum + weights[level], 0);
+    const shares = DIFFICULTY_LEVELS.map(level => `${Math.round(count * weights[level] / total)} ${level}`);
+    return `Aim for about ${shares.join(', ')} questions, and set "difficulty" on each.`;
+}
+
+// --- Weak Areas Practice ---
+// Ranks subject/topic pairs from aggregatedSubjectData by low accuracy and low exposure, spreads the requested
+// number of questions over the weakest few, and fills each share from the question bank before generating more.
+interface WeakArea {
+    subject: string;
+    topic: string;
+    correct: number;
+    attempted: number;
+    weight: number;
+}
+
+const MAX_WEAK_AREAS = 5;
+
+function weakAreaKey(subject: string, topic: string): string {
+    return `${normalizeQuestionText(subject)}|${normalizeQuestionText(topic)}`;
+}
+
+// Accuracy is smoothed toward 50% so one lucky answer doesn't hide a topic, and rarely practised topics get a boost
+function rankWeakAreas(bank: Question[]): WeakArea[] {
+    const areas = new Map<string, WeakArea>();
+    Object.entries(aggregatedSubjectData).forEach(([subject, stats]) => {
+        Object.entries(stats.topics).forEach(([topic, topicStats]) => {
+            areas.set(weakAreaKey(subject, topic), { subject, topic, correct: topicStats.correct, attempted: topicStats.total, weight: 0 });
+        });
+    });
+    // Topics in the bank that were never attempted count as weak areas with zero exposure
+    bank.forEach(q => {
+        const subject = q.subject || 'Uncategorized';
+        const topic = q.topic || 'General';
+        const key = weakAreaKey(subject, topic);
+        if (!areas.has(key)) areas.set(key, { subject, topic, correct: 0, attempted: 0, weight: 0 });
+    });
+
+    return [...areas.values()]
+        .map(area => {
+            const smoothedAccuracy = (area.correct + 1) / (area.attempted + 2);
+            return { ...area, weight: (1 - smoothedAccuracy) + 0.5 / Math.sqrt(area.attempted + 1) };
+        })
+        .sort((a, b) => b.weight - a.weight);
+}
+
+async function renderWeakAreasPanel() {
+    let bank: Question[] = [];
+    try {
+        bank = await getBankQuestions();
+    } catch (error) {
+        console.error("Error loading question bank:", error);
+    }
+    const areas = rankWeakAreas(bank).slice(0, MAX_WEAK_AREAS);
+    weakAreasBuildBtn.disabled = areas.length === 0;
+    if (areas.length === 0) {
+        setHTML(weakAreasList, html`<p class="placeholder">Complete some tests to find your weak areas.</p>`);
+        return;
+    }
+    setHTML(weakAreasList, areas.map(area => html`
+        <div class="stat-row">
+            <span>${area.subject} · ${area.topic}</span>
+            <span>${area.attempted === 0 ? 'Not practised yet' : html`${((area.correct / area.attempted) * 100).toFixed(0)}% of ${area.attempted}`}</span>
+        </div>
+    `));
+}
+
+function shuffle<T>(items: T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+// Bank questions for the area, preferring ones never answered correctly, then in random order
+function pickBankQuestions(bank: Question[], area: WeakArea, count: number, answeredCorrectly: Set<string>, used: Set<string>, mix: DifficultyMix): Question[] {
+    const key = weakAreaKey(area.subject, area.topic);
+    const candidates = shuffle(bank.filter(q => !used.has(q.id) && weakAreaKey(q.subject || 'Uncategorized', q.topic || 'General') === key));
+    candidates.sort((a, b) => Number(answeredCorrectly.has(a.id)) - Number(answeredCorrectly.has(b.id)));
+    const picked = pickByDifficulty(candidates, count, mix);
+    picked.forEach(q => used.add(q.id));
+    return picked;
+}
+
+async function generateWeakAreaQuestions(area: WeakArea, count: number, language: string, mix: DifficultyMix): Promise<Question[]> {
+    const { provider, model } = await getAIProvider();
+    const source = `${area.subject} – ${area.topic}`;
+    const prompt = `Generate ${count} UPSC-style multiple-choice questions (4 options) on the topic "${area.topic}" within the subject "${area.subject}". The questions should be in ${language}. For each question, provide the question, four options, the 0-indexed correct answer, a detailed explanation, the general subject ("${area.subject}"), and the specific topic ("${area.topic}"). ${difficultyGuidance(mix, count)} ${QUESTION_TYPE_GUIDANCE}`;
+    const generated = await provider.generateQuestions({ contents: prompt, count, language, source }, model);
+    const { questions } = validateQuestions(Array.isArray(generated) ? generated : []);
+    return questions.slice(0, count).map(q => ({ ...q, subject: area.subject, topic: area.topic, source }));
+}
+
+async function buildWeakAreasTest() {
+    const size = Math.min(100, Math.max(5, parseInt(weakAreasSizeInput.value, 10) || 20));
+    const language = languageSelect.value;
+    const mix = selectedDifficultyMix(weakAreasDifficultySelect);
+    weakAreasBuildBtn.disabled = true;
+    weakAreasBuildBtn.textContent = 'Building...';
+
+    try {
+        const [bank, history] = await Promise.all([getBankQuestions(), getAttempts()]);
+        difficultyEstimates = calibrateDifficulty(history);
+        const areas = rankWeakAreas(bank).slice(0, Math.min(MAX_WEAK_AREAS, size));
+        if (areas.length === 0) throw new Error('Complete some tests first so your weak areas can be found.');
+
+        const answeredCorrectly = new Set<string>();
+        history.forEach(attempt => attempt.fullTest.questions.forEach((q, i) => {
+            if (q.id && isCorrectAnswer(q, attempt.userAnswers[i])) answeredCorrectly.add(q.id);
+        }));
+
+        const used = new Set<string>();
+        const allocation = allocateByWeight(areas.map(a => a.weight), size);
+        const shares = areas.map((area, i) => ({ area, count: allocation[i], questions: pickBankQuestions(bank, area, allocation[i], answeredCorrectly, used, mix) }));
+
+        const short = shares.filter(s => s.questions.length < s.count);
+        if (short.length > 0 && weakAreasGenerateInput.checked) {
+            const failed: string[] = [];
+            await mapWithConcurrency(short, GENERATION_CONCURRENCY, async share => {
+                try {
+                    share.questions.push(...await generateWeakAreaQuestions(share.area, share.count - share.questions.length, language, mix));
+                } catch (error) {
+                    console.error(`Error generating questions for ${share.area.topic}:`, error);
+                    failed.push(share.area.topic);
+                }
+            });
+            if (failed.length > 0) showToast(`Could not generate new questions for ${failed.join(', ')}; using saved questions only there.`, "warning");
+        }
+
+        const questions = shuffle(shares.flatMap(s => s.questions));
+        if (questions.length === 0) {
+            throw new Error('No saved questions match your weak areas. Turn on generating new questions to practise them.');
+        }
+
+        currentTest = {
+            id: `test_${Date.now()}`,
+            name: `Weak Areas Practice – ${areas.map(a => a.topic).slice(0, 3).join(', ')}${areas.length > 3 ? '…' : ''}`,
+            questions,
+            duration: Math.max(5, Math.ceil(questions.length * 1.2)),
+            language,
+            createdAt: new Date().toISOString(),
+            ...readMarkingConfig()
+        };
+        renderEditableTest(currentTest);
+        renderValidationSummary(null);
+        showView(editTestView);
+        showToast(`Targets: ${shares.filter(s => s.questions.length > 0).map(s => `${s.area.topic} (${s.questions.length})`).join(', ')}`, "info");
+    } catch (error) {
+        console.error("Error building weak areas test:", error);
+        alert(`Could not build a weak areas test. ${error.message}`);
+    } finally {
+        weakAreasBuildBtn.textContent = 'Build Practice Test';
+        weakAreasBuildBtn.disabled = false;
+    }
+}
+
+[difficultyMixSelect, weakAreasDifficultySelect].forEach(select =>
+    setHTML(select, DIFFICULTY_MIXES.map(m => html`<option value="${m.id}">${m.label}</option>`)));
+weakAreasBuildBtn.addEventListener('click', buildWeakAreasTest);
+
+
+// --- Settings View Logic ---
+settingsBtn.addEventListener('click', async () => {
+    await renderSettings();
+    showView(settingsView);
+});
+
+async function renderSettings() {
+    let settings = DEFAULT_AI_SETTINGS;
+    try {
+        settings = await getAISettings();
+    } catch (error) {
+        console.error("Error loading settings:", error);
+    }
+
+    setHTML(aiProviderSelect, Object.values(AI_PROVIDERS)
+        .map(p => html`<option value="${p.id}" ${p.id === settings.provider ? 'selected' : ''}>${p.label}</option>`));
+    updateModelOptions();
+    aiModelInput.value = settings.model;
+}
+
+// Suggest the selected provider's models; the model field stays free text for models not in the list
+function updateModelOptions() {
+    const provider = AI_PROVIDERS[aiProviderSelect.value as AIProviderId];
+    setHTML(aiModelOptions, provider.models.map(m => html`<option value="${m}"></option>`));
+    aiProviderDescription.textContent = provider.description;
+}
+
+aiProviderSelect.addEventListener('change', () => {
+    updateModelOptions();
+    aiModelInput.value = AI_PROVIDERS[aiProviderSelect.value as AIProviderId].models[0];
+});
+
+saveSettingsBtn.addEventListener('click', async () => {
+    const provider = aiProviderSelect.value as AIProviderId;
+    const settings: AISettings = {
+        provider,
+        model: aiModelInput.value.trim() || AI_PROVIDERS[provider].models[0]
+    };
+
+    try {
+        await saveSetting(userKey('aiSettings'), settings);
+        showToast("Settings saved", "success");
+        showView(mainView);
+    } catch (error) {
+        reportStorageError('save your settings', error);
+    }
+});
+
+
+// --- Question Bank View Logic ---
+let bankQuestions: Question[] = [];
+let bankUsage = new Map<string, number>(); // question ID -> number of saved tests that use it
+const selectedBankIds = new Set<string>();
+
+async function renderQuestionBank() {
+    try {
+        const [questions, tests] = await Promise.all([getBankQuestions(), getTests()]);
+        bankQuestions = questions;
+        bankUsage = new Map();
+        tests.forEach(test => new Set(test.questions.map(q => q.id)).forEach(id => bankUsage.set(id, (bankUsage.get(id) || 0) + 1)));
+    } catch (error) {
+        console.error("Error loading question bank:", error);
+        setHTML(bankQuestionsContainer, html`<p class="placeholder">Could not load your question bank. ${error.message}</p>`);
+        return;
+    }
+
+    const bankIds = new Set(bankQuestions.map(q => q.id));
+    [...selectedBankIds].forEach(id => { if (!bankIds.has(id)) selectedBankIds.delete(id); });
+
+    const subjects = [...new Set(bankQuestions.map(q => q.subject || 'Uncategorized'))].sort();
+    const currentSubject = bankSubjectFilter.value;
+    setHTML(bankSubjectFilter, [html`<option value="">All subjects</option>`,
+        ...subjects.map(subject => html`<option value="${subject}" ${subject === currentSubject ? 'selected' : ''}>${subject}</option>`)]);
+    renderBankList();
+}
+
+function getFilteredBankQuestions(): Question[] {
+    const search = normalizeQuestionText(bankSearchInput.value);
+    const subject = bankSubjectFilter.value;
+    return bankQuestions.filter(q =>
+        (!subject || (q.subject || 'Uncategorized') === subject) &&
+        (!search || normalizeQuestionText(`${q.question} ${q.topic} ${q.source || ''}`).includes(search))
+    );
+}
+
+function renderBankList() {
+    bankSelectionCount.textContent = `${selectedBankIds.size} selected`;
+    bankCreateTestBtn.disabled = selectedBankIds.size === 0;
+
+    if (bankQuestions.length === 0) {
+        setHTML(bankQuestionsContainer, html`<p class="placeholder">Your question bank is empty. Questions are added when you save a test.</p>`);
+        return;
+    }
+    const questions = getFilteredBankQuestions();
+    if (questions.length === 0) {
+        setHTML(bankQuestionsContainer, html`<p class="placeholder">No questions match your filters.</p>`);
+        return;
+    }
+
+    setHTML(bankQuestionsContainer, questions.map(q => {
+        const usedIn = bankUsage.get(q.id) || 0;
+        const date = q.createdAt ? new Date(q.createdAt).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' }) : 'Unknown date';
+        return html`
+        <label class="bank-question-item ${selectedBankIds.has(q.id) ? 'selected' : ''}" data-question-id="${q.id}">
+            <input type="checkbox" ${selectedBankIds.has(q.id) ? 'checked' : ''}>
+            <div class="bank-question-body">
+                <p class="bank-question-text">${q.question}</p>
+                <div class="bank-question-meta">
+                    <span class="stat-pill">${q.subject || 'Uncategorized'}${q.topic ? html` · ${q.topic}` : ''}</span>
+                    ${renderDifficultyBadge(q)}
+                    <span>${q.source || 'Unknown source'}</span>
+                    <span>${date}</span>
+                    <span>${usedIn === 0 ? 'Not in any test' : html`Used in ${usedIn} test${usedIn === 1 ? '' : 's'}`}</span>
+                </div>
+            </div>
+        </label>
+    `}));
+}
+
+bankSearchInput.addEventListener('input', renderBankList);
+bankSubjectFilter.addEventListener('change', renderBankList);
+
+bankQuestionsContainer.addEventListener('change', e => {
+    const checkbox = e.target as HTMLInputElement;
+    const item = checkbox.closest('.bank-question-item') as HTMLElement;
+    if (!item) return;
+    if (checkbox.checked) {
+        selectedBankIds.add(item.dataset.questionId);
+    } else {
+        selectedBankIds.delete(item.dataset.questionId);
+    }
+    item.classList.toggle('selected', checkbox.checked);
+    bankSelectionCount.textContent = `${selectedBankIds.size} selected`;
+    bankCreateTestBtn.disabled = selectedBankIds.size === 0;
+});
+
+// Opens the editor with the selected questions; the new test references them by ID once saved
+bankCreateTestBtn.addEventListener('click', () => {
+    const questions = bankQuestions.filter(q => selectedBankIds.has(q.id));
+    if (questions.length === 0) return;
+
+    currentTest = {
+        id: `test_${Date.now()}`,
+        name: `Question Bank Selection (${questions.length} questions)`,
+        questions: JSON.parse(JSON.stringify(questions)),
+        duration: parseInt(durationInput.value, 10) || questions.length,
+        language: languageSelect.value,
+        createdAt: new Date().toISOString(),
+        ...readMarkingConfig()
+    };
+    selectedBankIds.clear();
+    renderEditableTest(currentTest);
+    renderValidationSummary(null);
+    showView(editTestView);
+});
+
+
+// --- Spaced Repetition Review ---
+// Every question answered wrong, or answered but left marked for review (a guess), gets an SM-2 review card.
+// Due cards are taken as an ordinary timed attempt, and each answer there grades the card and reschedules it.
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const MAX_REVIEW_SESSION_QUESTIONS = 30;
+const REVIEW_SECONDS_PER_QUESTION = 72;
+
+function reviewCardId(question: Question): string {
+    return question.id || `fp_${questionFingerprint(question)}`;
+}
+
+function needsReview(attempt: TestAttempt, index: number): boolean {
+    const answer = attempt.userAnswers[index];
+    if (answer === null || answer === undefined) return false;
+    return !isCorrectAnswer(attempt.fullTest.questions[index], answer) || attempt.questionStatuses?.[index] === 'markedAndAnswered';
+}
+
+// SM-2 grade (0–5) for one answer given in a review session
+function reviewQuality(attempt: TestAttempt, index: number): number {
+    const answer = attempt.userAnswers[index];
+    if (answer === null || answer === undefined) return 0;
+    if (!isCorrectAnswer(attempt.fullTest.questions[index], answer)) return 1;
+    if (attempt.questionStatuses?.[index] === 'markedAndAnswered') return 3;
+    return 5;
+}
+
+function scheduleReviewCard(card: ReviewCard, quality: number, reviewedAt: Date): ReviewCard {
+    const next = { ...card, lastReviewedAt: reviewedAt.toISOString() };
+    if (quality < 3) {
+        next.repetitions = 0;
+        next.interval = 1;
+        next.lapses++;
+    } else {
+        next.repetitions++;
+        next.interval = next.repetitions === 1 ? 1 : next.repetitions === 2 ? 6 : Math.round(card.interval * card.easeFactor);
+    }
+    next.easeFactor = Math.max(MIN_EASE_FACTOR, card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+    next.dueAt = new Date(reviewedAt.getTime() + next.interval * DAY_MS).toISOString();
+    return next;
+}
+
+// Adds cards for new mistakes and resets cards whose question was missed again after its last review.
+// Safe to run over the same attempts repeatedly: an attempt only changes a card if it is newer than the card.
+async function syncReviewCards(attempts: TestAttempt[]): Promise<ReviewCard[]> {
+    const cards = new Map((await getReviewCards()).map(c => [c.id, c]));
+    const changed = new Map<string, ReviewCard>();
+
+    [...attempts]
+        .filter(a => !a.fullTest.isReview)
+        .sort((a, b) => new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime())
+        .forEach(attempt => {
+            attempt.fullTest.questions.forEach((question, index) => {
+                if (!needsReview(attempt, index)) return;
+                const id = reviewCardId(question);
+                const card = cards.get(id);
+                if (!card) {
+                    const created: ReviewCard = {
+                        id, question, easeFactor: INITIAL_EASE_FACTOR, interval: 0, repetitions: 0, lapses: 0,
+                        dueAt: attempt.completedAt, lastMistakeAt: attempt.completedAt
+                    };
+                    cards.set(id, created);
+                    changed.set(id, created);
+                } else if (attempt.completedAt > card.lastMistakeAt && attempt.completedAt > (card.lastReviewedAt || '')) {
+                    const reset: ReviewCard = {
+                        ...card, question, repetitions: 0, interval: 0, lapses: card.lapses + 1,
+                        easeFactor: Math.max(MIN_EASE_FACTOR, card.easeFactor - 0.2),
+                        dueAt: attempt.completedAt, lastMistakeAt: attempt.completedAt
+                    };
+                    cards.set(id, reset);
+                    changed.set(id, reset);
+                }
+            });
+        });
+
+    if (changed.size > 0) await saveReviewCards([...changed.values()]);
+    return [...cards.values()];
+}
+
+// Called after every submitted attempt: review sessions grade their cards, other tests add new mistakes
+async function updateReviewSchedule(attempt: TestAttempt): Promise<void> {
+    if (attempt.fullTest.isReview) {
+        const cards = new Map((await getReviewCards()).map(c => [c.id, c]));
+        const reviewedAt = new Date(attempt.completedAt);
+        const updated = attempt.fullTest.questions
+            .map((question, index) => {
+                const card = cards.get(reviewCardId(question));
+                return card ? scheduleReviewCard(card, reviewQuality(attempt, index), reviewedAt) : null;
+            })
+            .filter(Boolean);
+        await saveReviewCards(updated);
+    } else {
+        await syncReviewCards([attempt]);
+    }
+    await refreshReviewDueSummary();
+}
+
+function getDueCards(cards: ReviewCard[]): ReviewCard[] {
+    const endOfToday = new Date();
+    endOfToday.setHours(23, 59, 59, 999);
+    return cards
+        .filter(c => new Date(c.dueAt) <= endOfToday)
+        .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+}
+
+async function refreshReviewDueSummary() {
+    try {
+        const due = getDueCards(await getReviewCards()).length;
+        reviewDueSummary.textContent = due === 0
+            ? 'Nothing due today. Questions you miss are scheduled here for review.'
+            : `${due} question${due === 1 ? '' : 's'} due for review today.`;
+    } catch (error) {
+        console.error("Error loading review cards:", error);
+    }
+}
+
+async function startReviewSession() {
+    let cards: ReviewCard[];
+    try {
+        cards = await syncReviewCards(await getAttempts());
+    } catch (error) {
+        reportStorageError('load your review schedule', error);
+        return;
+    }
+    await refreshReviewDueSummary();
+
+    const due = getDueCards(cards);
+    if (due.length === 0) {
+        const next = cards.sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime())[0];
+        showToast(next
+            ? `Nothing due for review. Next review on ${new Date(next.dueAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}.`
+            : 'Nothing to review yet. Questions you answer wrong or guess will be scheduled here.', "info");
+        return;
+    }
+
+    const questions = due.slice(0, MAX_REVIEW_SESSION_QUESTIONS).map(c => c.question);
+    const today = new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+    await startTest({
+        id: `review_${new Date().toISOString().slice(0, 10)}`,
+        name: `Due for Review – ${today}`,
+        questions,
+        duration: Math.max(1, Math.ceil(questions.length * REVIEW_SECONDS_PER_QUESTION / 60)),
+        language: languageSelect.value,
+        createdAt: new Date().toISOString(),
+        marksPerQuestion: 1,
+        negativeMarking: 0,
+        isReview: true
+    });
+}
+
+reviewCard.addEventListener('click', startReviewSession);
+
+// --- Test Exports ---
+// The page loads this file as a script and uses none of these; they are what the tests in tests/ drive
+export {
+    html, setHTML, trustedHTML,
+    SCHEMA_VERSION, fileSchemaVersion, migrateTest, migrateAttempt,
+    validateQuestion,
+    loginUser, saveTests, saveAttempts, getTest, getBankQuestions, planRestore, applyRestorePlan,
+    renderEditableTest, renderTestDetail, renderAllTests, renderQuestionBank, renderItemAnalysis,
+    beginAttempt, navigateToQuestion, stopTimer, renderPerformanceReport,
+    subsetTest, buildPaperDocument, buildReportDocument, buildAnkiDeck, buildQTIItem
+};
@@ -0,0 +1,49 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { loginUser, saveTests, getTest, getBankQuestions } from '../index.tsx';
+
+type Test = Parameters<typeof saveTests>[0][number];
+type Question = Test['questions'][number];
+
+const stem: Question = {
+    question: 'Who chaired the Drafting Committee of the Constituent Assembly?',
+    options: ['B. R. Ambedkar', 'Rajendra Prasad', 'Jawaharlal Nehru', 'Sardar Patel'],
+    answer: 0,
+    explanation: 'Dr B. R. Ambedkar chaired the Drafting Committee.',
+    subject: 'Polity',
+    topic: 'Constitution',
+};
+
+function testWith(id: string, question: Question): Test {
+    return {
+        id,
+        name: id,
+        questions: [{ ...question }],
+        duration: 5,
+        language: 'English',
+        createdAt: '2024-05-01T10:00:00.000Z',
+        marksPerQuestion: 2,
+        negativeMarking: 0.66,
+    };
+}
+
+beforeAll(() => {
+    loginUser({ username: 'bank-tester', name: 'Bank Tester', password: '', createdAt: '2024-01-01T00:00:00.000Z' }, false);
+});
+
+describe('saving tests to the question bank', () => {
+    it('shares a bank question only between identical questions', async () => {
+        await saveTests([testWith('test_local', stem)]);
+        await saveTests([testWith('test_same', stem)]);
+        const [local, same] = await Promise.all([getTest('test_local'), getTest('test_same')]);
+        expect(same.questions[0].id).toBe(local.questions[0].id);
+        expect(await getBankQuestions()).toHaveLength(1);
+    });
+
+    it('never rewrites an existing test when a new question only shares its stem and options', async () => {
+        await saveTests([testWith('test_changed', { ...stem, answer: 1, explanation: 'A different key.' })]);
+        const [local, changed] = await Promise.all([getTest('test_local'), getTest('test_changed')]);
+        expect(changed.questions[0].id).not.toBe(local.questions[0].id);
+        expect(local.questions[0]).toMatchObject({ answer: 0, explanation: stem.explanation });
+        expect(await getBankQuestions()).toHaveLength(2);
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { subsetTest, buildQTIItem } from '../index.tsx';
+
+type Test = Parameters<typeof subsetTest>[0];
+
+function question(n: number) {
+    return { question: `Question ${n}`, options: ['A', 'B', 'C', 'D'], answer: 0, explanation: '', subject: 'General', topic: `Topic ${n}` };
+}
+
+const sectioned: Test = {
+    id: 'test_sectioned',
+    name: 'Sectioned',
+    questions: [1, 2, 3, 4, 5].map(question),
+    duration: 30,
+    language: 'English',
+    createdAt: '2024-05-01T10:00:00.000Z',
+    marksPerQuestion: 1,
+    negativeMarking: 0,
+    sections: [
+        { name: 'Part A', questionCount: 2, duration: 10, marksPerQuestion: 2, negativeMarking: 0.5 },
+        { name: 'Part B', questionCount: 2, duration: 10, marksPerQuestion: 4, negativeMarking: 1 },
+        { name: 'Part C', questionCount: 1, duration: 10, marksPerQuestion: 3, negativeMarking: 0 },
+    ],
+};
+
+function qtiMarks(test: Test, index: number) {
+    const item = new DOMParser().parseFromString(buildQTIItem(test, index, 'ITEM', new Map()).__html.trim(), 'application/xml');
+    const scores = Array.from(item.querySelectorAll('setOutcomeValue[identifier="SCORE"] baseValue')).map(value => Number(value.textContent));
+    return { marks: scores[1], negative: 0 - scores[2] };
+}
+
+describe('a subset of a sectioned test', () => {
+    const subset = subsetTest(sectioned, [1, 2, 4]);
+
+    it('keeps each section for the questions taken from it and drops none that still have questions', () => {
+        expect(subset.questions.map(q => q.question)).toEqual(['Question 2', 'Question 3', 'Question 5']);
+        expect(subset.sections.map(section => [section.name, section.questionCount])).toEqual([['Part A', 1], ['Part B', 1], ['Part C', 1]]);
+    });
+
+    it('scores every question in QTI with the marking of its original section', () => {
+        expect([0, 1, 2].map(index => qtiMarks(subset, index))).toEqual([
+            { marks: 2, negative: 0.5 },
+            { marks: 4, negative: 1 },
+            { marks: 3, negative: 0 },
+        ]);
+    });
+
+    it('drops sections none of whose questions were taken', () => {
+        expect(subsetTest(sectioned, [2, 3]).sections.map(section => section.name)).toEqual(['Part B']);
+    });
+});
+
+describe('a subset of an unsectioned test', () => {
+    it('keeps the test-level marking', () => {
+        const subset = subsetTest({ ...sectioned, sections: undefined, marksPerQuestion: 2, negativeMarking: 0.66 }, [0, 3]);
+        expect(subset.sections).toBeUndefined();
+        expect(qtiMarks(subset, 1)).toEqual({ marks: 2, negative: 0.66 });
+    });
+});
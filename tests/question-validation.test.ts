@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { validateQuestion } from '../index.tsx';
+
+function question(options: string[]) {
+    return { question: 'Who is this?', options, answer: 0, explanation: 'Because.', subject: 'History', topic: 'Modern India' };
+}
+
+describe('option labels', () => {
+    it.each([
+        [['A. Mahatma Gandhi', 'B. B. R. Ambedkar', 'C. C. V. Raman', 'D. Sardar Patel']],
+        [['(a) Mahatma Gandhi', '(b) B. R. Ambedkar', '(c) C. V. Raman', '(d) Sardar Patel']],
+        [['1) Mahatma Gandhi', '2) B. R. Ambedkar', '3) C. V. Raman', '4) Sardar Patel']],
+    ])('are removed when every option has one, in order: %j', options => {
+        const { question: validated, repairs } = validateQuestion(question(options));
+        expect(validated.options).toEqual(['Mahatma Gandhi', 'B. R. Ambedkar', 'C. V. Raman', 'Sardar Patel']);
+        expect(repairs).toContain('removed option labels');
+    });
+
+    it('are left alone when only some options look labelled', () => {
+        const options = ['Mahatma Gandhi', 'B. R. Ambedkar', 'C. V. Raman', 'Sardar Patel'];
+        const { question: validated, repairs } = validateQuestion(question(options));
+        expect(validated.options).toEqual(options);
+        expect(repairs).not.toContain('removed option labels');
+    });
+
+    it('are left alone when the labels are out of order', () => {
+        const options = ['B. R. Ambedkar', 'C. V. Raman', 'A. P. J. Abdul Kalam', 'D. D. Kosambi'];
+        expect(validateQuestion(question(options)).question.options).toEqual(options);
+    });
+});
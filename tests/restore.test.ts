@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { loginUser, saveTests, getTest, getBankQuestions, planRestore, applyRestorePlan } from '../index.tsx';
+
+type Test = Parameters<typeof saveTests>[0][number];
+
+function fixtureTest(answer: number, explanation: string): Test {
+    return {
+        id: 'test_conflict',
+        name: 'Conflicting Test',
+        questions: [{
+            question: 'Which Article of the Constitution of India abolishes untouchability?',
+            options: ['Article 14', 'Article 15', 'Article 17', 'Article 21'],
+            answer,
+            explanation,
+            subject: 'Polity',
+            topic: 'Fundamental Rights',
+        }],
+        duration: 5,
+        language: 'English',
+        createdAt: '2024-05-01T10:00:00.000Z',
+        marksPerQuestion: 2,
+        negativeMarking: 0.66,
+        schemaVersion: 4,
+    };
+}
+
+beforeAll(() => {
+    loginUser({ username: 'restore-tester', name: 'Restore Tester', password: '', createdAt: '2024-01-01T00:00:00.000Z' }, false);
+});
+
+describe('restoring a backup', () => {
+    it('keeps the local test unchanged when "keep both" is chosen for a conflict', async () => {
+        await saveTests([fixtureTest(2, 'Local explanation')]);
+        const local = await getTest('test_conflict');
+
+        // The backup has the same test and question IDs, with a different answer key
+        const backup = fixtureTest(1, 'Backup explanation');
+        backup.questions[0].id = local.questions[0].id;
+        const plan = await planRestore({ schemaVersion: 4, tests: [backup], performanceHistory: [] }, 4, 'backup.json');
+        expect(plan.tests.map(item => item.status)).toEqual(['conflict']);
+
+        plan.tests[0].choice = 'both';
+        await applyRestorePlan(plan);
+
+        expect(await getTest('test_conflict')).toMatchObject({ questions: [{ id: local.questions[0].id, answer: 2, explanation: 'Local explanation' }] });
+        const copy = await getTest('test_conflict_restored');
+        expect(copy).toMatchObject({ name: 'Conflicting Test (Restored)', questions: [{ answer: 1, explanation: 'Backup explanation' }] });
+        expect(copy.questions[0].id).not.toBe(local.questions[0].id);
+        expect(await getBankQuestions()).toHaveLength(2);
+    });
+
+    it('finds the copy again when the same backup is restored twice', async () => {
+        const local = await getTest('test_conflict');
+        const backup = fixtureTest(1, 'Backup explanation');
+        backup.questions[0].id = local.questions[0].id;
+        const plan = await planRestore({ schemaVersion: 4, tests: [backup], performanceHistory: [] }, 4, 'backup.json');
+        expect(plan.tests.map(item => item.status)).toEqual(['identical']);
+    });
+});
@@ -0,0 +1,221 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+    html, setHTML, migrateTest, loginUser, saveTests, saveAttempts,
+    renderEditableTest, renderTestDetail, renderAllTests, renderQuestionBank, renderItemAnalysis,
+    beginAttempt, navigateToQuestion, stopTimer, renderPerformanceReport,
+    buildPaperDocument, buildReportDocument, buildAnkiDeck, buildQTIItem
+} from '../index.tsx';
+
+// Each payload marks anything it manages to create with data-pwned, or sets globalThis.pwned when it runs
+const PAYLOADS = [
+    '<script data-pwned>globalThis.pwned = 1</script>',
+    '<img src=x data-pwned onerror="globalThis.pwned = 1">',
+    '"><b data-pwned onmouseover="globalThis.pwned = 1">bold</b><"',
+    "' data-pwned onfocus='globalThis.pwned = 1' autofocus x='",
+    '&lt;img src=x data-pwned onerror=globalThis.pwned=1&gt; &amp;lt;b data-pwned&amp;gt;',
+    '`${globalThis.pwned = 1}` javascript:globalThis.pwned=1',
+];
+
+type Test = Parameters<typeof renderTestDetail>[0];
+type TestAttempt = Parameters<typeof renderPerformanceReport>[0];
+
+function hostileText(payload: string, i: number) {
+    return {
+        question: payload,
+        options: [0, 1, 2, 3].map(n => `${payload} ${i}.${n}`),
+        explanation: payload,
+        statements: [`${payload} 1`, `${payload} 2`],
+        matchLists: { left: [`${payload} L1`, `${payload} L2`], right: [`${payload} R1`, `${payload} R2`] },
+        assertion: payload,
+        reason: payload,
+        prompt: payload,
+    };
+}
+
+// One question of every type, with every text field set to the payload, in English and in a Hindi translation
+function hostileTest(payload: string, id: string): Test {
+    const types = ['single', 'multiple', 'statements', 'match', 'assertion-reason'] as const;
+    const questions = types.map((type, i) => ({
+        ...hostileText(payload, i),
+        type,
+        answer: 0,
+        ...(type === 'multiple' ? { answers: [0, 2] } : {}),
+        subject: payload,
+        topic: payload,
+        difficulty: 'medium' as const,
+        source: payload,
+        translations: { Hindi: hostileText(payload, i) },
+        images: [{ id: 'img_missing', caption: payload }],
+    }));
+    return {
+        id,
+        name: payload,
+        questions,
+        duration: 10,
+        language: 'English',
+        createdAt: '2024-05-01T10:00:00.000Z',
+        marksPerQuestion: 2,
+        negativeMarking: 0.5,
+        qualifyingPercent: 40,
+        sections: [{ name: payload, questionCount: questions.length, duration: 10, marksPerQuestion: 2, negativeMarking: 0.5 }],
+    };
+}
+
+// Every question answered wrong, so the mistakes review shows all of them
+function hostileAttempt(test: Test): TestAttempt {
+    const count = test.questions.length;
+    return {
+        id: `attempt_${test.id}`,
+        testId: test.id,
+        testName: test.name,
+        userAnswers: test.questions.map(q => (q.type === 'multiple' ? [1] : 1)),
+        timeTaken: 300,
+        timePerQuestion: test.questions.map(() => 60),
+        completedAt: '2024-05-02T10:00:00.000Z',
+        score: -12.5,
+        totalQuestions: count,
+        correctAnswers: 0,
+        incorrectAnswers: count,
+        unanswered: 0,
+        questionStatuses: test.questions.map(() => 'answered' as const),
+        sectionTimes: [300],
+        fullTest: test,
+    };
+}
+
+function expectInert(root: ParentNode) {
+    expect(root.querySelector('[data-pwned]')).toBeNull();
+    const handlers = Array.from(root.querySelectorAll('*')).flatMap(element =>
+        Array.from(element.attributes).filter(attribute => attribute.name.startsWith('on')).map(attribute => `<${element.tagName.toLowerCase()} ${attribute.name}>`));
+    expect(handlers).toEqual([]);
+    expect((globalThis as { pwned?: unknown }).pwned).toBeUndefined();
+}
+
+function parseDocument(markup: string, type: DOMParserSupportedType = 'text/html'): Document {
+    return new DOMParser().parseFromString(markup, type);
+}
+
+beforeAll(() => {
+    loginUser({ username: 'tester', name: 'Tester', password: '', createdAt: '2024-01-01T00:00:00.000Z' }, false);
+});
+
+afterEach(() => {
+    stopTimer();
+    vi.useRealTimers();
+});
+
+describe('the html tag', () => {
+    it('escapes interpolated strings', () => {
+        expect(html`<p>${PAYLOADS[1]}</p>`.__html).toBe('<p>&lt;img src=x data-pwned onerror=&quot;globalThis.pwned = 1&quot;&gt;</p>');
+    });
+
+    it('escapes objects that only look like trusted markup', () => {
+        const forged = JSON.parse('{"__html": "<img src=x data-pwned onerror=\\"globalThis.pwned = 1\\">"}');
+        const container = document.createElement('div');
+        setHTML(container, html`<p>${forged}</p><p>${[forged]}</p>`);
+        expectInert(container);
+    });
+
+    it('keeps nested html results as markup', () => {
+        expect(html`<p>${html`<b>${'<i>'}</b>`}</p>`.__html).toBe('<p><b>&lt;i&gt;</b></p>');
+    });
+});
+
+describe('importing', () => {
+    it('turns object-shaped fields into text before anything renders them', () => {
+        const forged = { __html: '<img src=x data-pwned onerror="globalThis.pwned = 1">' };
+        const raw = JSON.parse(JSON.stringify({
+            id: 'test_forged',
+            name: forged,
+            duration: 10,
+            language: forged,
+            createdAt: '2024-05-01T10:00:00.000Z',
+            questions: [{
+                question: forged,
+                options: [forged, 'B', 'C', 'D'],
+                answer: 0,
+                explanation: forged,
+                subject: forged,
+                topic: forged,
+                statements: [forged],
+                translations: { Hindi: { question: forged, options: [forged] } },
+                images: [{ id: 'img_1', caption: forged }],
+            }],
+            sections: [{ name: forged, questionCount: 1, duration: 10 }],
+            schemaVersion: 4,
+        }));
+        const test = migrateTest(raw);
+
+        const strings = [test.name, test.language, test.sections[0].name, ...Object.entries(test.questions[0])
+            .filter(([key]) => ['question', 'explanation', 'subject', 'topic'].includes(key)).map(([, value]) => value),
+            ...test.questions[0].options, ...test.questions[0].statements, test.questions[0].translations.Hindi.question,
+            test.questions[0].images[0].caption ?? ''];
+        strings.forEach(value => expect(typeof value).toBe('string'));
+
+        renderTestDetail(test);
+        renderEditableTest(test);
+        expectInert(document.body);
+    });
+});
+
+describe.each(PAYLOADS.map((payload, i) => [i, payload]))('payload %i renders inert', (i, payload) => {
+    const test = hostileTest(payload as string, `test_hostile_${i}`);
+    const attempt = hostileAttempt(test);
+
+    it('in the editor', () => {
+        renderEditableTest(test);
+        expectInert(document.body);
+    });
+
+    it('in the test detail view', () => {
+        renderTestDetail(test);
+        expectInert(document.body);
+        expect(document.getElementById('test-detail-view').textContent).toContain(payload);
+    });
+
+    it('in the saved tests list and the question bank', async () => {
+        await saveTests([structuredClone(test)]);
+        await renderAllTests();
+        await renderQuestionBank();
+        expectInert(document.body);
+    });
+
+    it('while taking the test', () => {
+        vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+        beginAttempt(structuredClone(test));
+        test.questions.forEach((_, index) => navigateToQuestion(index));
+        expectInert(document.body);
+    });
+
+    it('in the performance report', () => {
+        renderPerformanceReport(attempt);
+        expectInert(document.body);
+        expect(document.getElementById('performance-report-view').textContent).toContain(payload);
+    });
+
+    it('in item analysis', async () => {
+        await saveAttempts([attempt]);
+        await renderItemAnalysis(test);
+        expectInert(document.body);
+    });
+
+    it('in the printable paper', async () => {
+        const paper = await buildPaperDocument(test, { sets: 2, shuffleQuestions: true, shuffleOptions: true, includeKey: true, includeOMR: true });
+        const document = parseDocument(paper);
+        expectInert(document);
+        expect(document.body.textContent).toContain(payload);
+    });
+
+    it('in exported reports and question files', async () => {
+        expectInert(parseDocument(await buildReportDocument(attempt)));
+
+        const cards = buildAnkiDeck(test).split('\n').filter(line => !line.startsWith('#'));
+        cards.forEach(card => card.split('\t').forEach(field => expectInert(parseDocument(field.replace(/^"|"$/g, '').replace(/""/g, '"')))));
+
+        test.questions.forEach((_, index) => {
+            const item = parseDocument(buildQTIItem(test, index, `ITEM-${index + 1}`, new Map()).__html.trim(), 'application/xml');
+            expect(item.querySelector('parsererror')).toBeNull();
+            expectInert(item);
+        });
+    });
+});
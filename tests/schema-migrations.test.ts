@@ -0,0 +1,66 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION, fileSchemaVersion, migrateTest, migrateAttempt } from '../index.tsx';
+
+function loadFixture(name: string) {
+    return JSON.parse(readFileSync(path.resolve(__dirname, '../fixtures/schema', `${name}.json`), 'utf8'));
+}
+
+// What each historical shape should look like once it has been brought up to date
+const FIXTURES = [
+    { name: 'v1-no-marking', marking: [1, 0], qualifyingPercent: 50, attemptId: 'attempt_1700000600000_test_1700000000001' },
+    { name: 'v2-no-attempt-ids', marking: [2, 0.66], qualifyingPercent: 50, attemptId: 'attempt_1700000600000_test_1700000000002' },
+    { name: 'v3-no-qualifying-score', marking: [2, 0.66], qualifyingPercent: 50, attemptId: 'attempt_1700000600000_test_1700000000003' },
+    { name: 'v4-current', marking: [2, 0.66], qualifyingPercent: 33, attemptId: 'attempt_1700000600000_test_1700000000004' },
+];
+
+describe.each(FIXTURES)('$name', ({ name, marking, qualifyingPercent, attemptId }) => {
+    const data = loadFixture(name);
+    const version = fileSchemaVersion(data);
+    const tests = data.tests.map(test => migrateTest(test, test.schemaVersion ?? version));
+    const attempts = data.performanceHistory.map(attempt => migrateAttempt(attempt, attempt.schemaVersion ?? version));
+
+    it('gives every test a marking scheme and a qualifying score', () => {
+        [...tests, ...attempts.map(attempt => attempt.fullTest)].forEach(test => {
+            expect([test.marksPerQuestion, test.negativeMarking]).toEqual(marking);
+            expect(test.qualifyingPercent).toBe(qualifyingPercent);
+            expect(test.schemaVersion).toBe(SCHEMA_VERSION);
+        });
+    });
+
+    it('gives every attempt an ID and an answer and a time for every question', () => {
+        const [attempt] = attempts;
+        expect(attempt.id).toBe(attemptId);
+        expect(attempt.userAnswers).toHaveLength(attempt.fullTest.questions.length);
+        expect(attempt.timePerQuestion).toHaveLength(attempt.fullTest.questions.length);
+        expect(attempt.timePerQuestion.every(time => typeof time === 'number')).toBe(true);
+        expect(attempt.schemaVersion).toBe(SCHEMA_VERSION);
+    });
+
+    it('leaves already migrated records unchanged', () => {
+        expect(tests.map(test => migrateTest(test))).toEqual(tests);
+        expect(attempts.map(attempt => migrateAttempt(attempt))).toEqual(attempts);
+    });
+});
+
+describe('attempts saved before every question had an answer', () => {
+    it('are padded with unanswered questions', () => {
+        const [attempt] = loadFixture('v2-no-attempt-ids').performanceHistory.map(raw => migrateAttempt(raw));
+        expect(attempt.userAnswers).toEqual([2, null]);
+        expect(attempt.timePerQuestion).toEqual([40.5, 0]);
+        expect(attempt.unanswered).toBe(1);
+    });
+});
+
+describe('fileSchemaVersion', () => {
+    it('reads the version of a file, and 1 for files from before versioning', () => {
+        expect(fileSchemaVersion(loadFixture('v4-current'))).toBe(4);
+        expect(fileSchemaVersion(loadFixture('v1-no-marking'))).toBe(1);
+    });
+
+    it('refuses files from a newer version of the app', () => {
+        const file = { ...loadFixture('v4-current'), schemaVersion: SCHEMA_VERSION + 1 };
+        expect(() => fileSchemaVersion(file)).toThrow(/newer version of the app/);
+    });
+});
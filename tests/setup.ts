@@ -0,0 +1,15 @@
+import 'fake-indexeddb/auto';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { vi } from 'vitest';
+
+// index.tsx looks its elements up when it loads, so the page has to be in place before a test imports it
+const page = readFileSync(path.resolve(__dirname, '../index.html'), 'utf8');
+document.body.innerHTML = new DOMParser().parseFromString(page, 'text/html').body.innerHTML;
+
+// pdf.js needs a newer Node than the tests may run on, and no test reads a PDF
+vi.mock('pdfjs-dist', () => ({ GlobalWorkerOptions: {}, getDocument: vi.fn() }));
+
+vi.stubGlobal('alert', vi.fn());
+vi.stubGlobal('confirm', vi.fn(() => false));
+window.scrollTo = vi.fn();